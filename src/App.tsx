@@ -1,16 +1,49 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import styled from 'styled-components';
 import GanttChart from './components/GanttChart';
 import SettingsPanel from './components/SettingsPanel';
+import FilterBar from './components/FilterBar';
+import ExportMenu, { ExportMenuItem } from './components/ExportMenu';
+import ImportWizard from './components/ImportWizard';
+import ResourceView from './components/ResourceView';
+import TaskEditPanel, { TaskEditChanges } from './components/TaskEditPanel';
+import SchedulePreview from './components/SchedulePreview';
 import {
+  ChartMode,
   GanttSettings,
   GanttTask,
+  ItemColumnUpdate,
+  LoadProgress,
   MondayBoard,
   MondayItem,
-  WidgetContext
+  MondayUser,
+  TaskBaseline,
+  TaskDateChange,
+  TaskFilter,
+  WidgetContext,
+  ZoomLevel
 } from './types';
 import mondayService from './services/mondayService';
 import dataProcessor from './services/dataProcessor';
+import baselineStore from './services/baselineStore';
+import workCalendar from './services/workCalendar';
+import scheduler from './services/scheduler';
+import commandHistory, { Command } from './services/commandHistory';
+import chartExporter, { ChartExportOptions } from './services/chartExporter';
+import tableExporter from './services/tableExporter';
+import scheduleExporter from './services/scheduleExporter';
+import { wouldCreateCycle } from './utils/dependencyGraph';
+import { resolveBoardColumnId, resolveItemColumnId } from './utils/columnResolver';
+import {
+  PEOPLE_TYPES,
+  STATUS_TYPES,
+  findColumnId,
+  getColumnLabels,
+  getWritableColumnValue,
+  parseJson
+} from './utils/columnValues';
+import { DEFAULT_ZOOM_LEVEL, ZOOM_LEVELS } from './utils/timeScale';
+import { DEFAULT_MAX_ITEMS_PER_BOARD, DEFAULT_POLL_INTERVAL_SECONDS } from './utils/settingsDefaults';
 
 const AppContainer = styled.div<{ theme: 'light' | 'dark' }>`
   width: 100%;
@@ -19,6 +52,8 @@ const AppContainer = styled.div<{ theme: 'light' | 'dark' }>`
   color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
   font-family: "Figtree", -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", sans-serif;
   position: relative;
+  display: flex;
+  flex-direction: column;
 `;
 
 const Header = styled.div<{ theme: 'light' | 'dark' }>`
@@ -77,8 +112,25 @@ const Button = styled.button<{ variant?: 'primary' | 'secondary'; theme: 'light'
   }
 `;
 
+const HeaderSelect = styled.select<{ theme: 'light' | 'dark' }>`
+  padding: 7px 10px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+  cursor: pointer;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+`;
+
 const Content = styled.div`
-  height: calc(100vh - 73px);
+  flex: 1;
+  min-height: 0;
   overflow: hidden;
 `;
 
@@ -126,28 +178,217 @@ const ErrorText = styled.div`
   margin-bottom: 16px;
 `;
 
+const ProgressText = styled.div<{ theme: 'light' | 'dark' }>`
+  font-size: 13px;
+  color: ${props => props.theme === 'dark' ? '#999' : '#666'};
+`;
+
+const ProgressTrack = styled.div<{ theme: 'light' | 'dark' }>`
+  height: 3px;
+  background-color: ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
+`;
+
+const ProgressFill = styled.div<{ percent: number }>`
+  height: 100%;
+  width: ${props => props.percent}%;
+  background-color: #037f4c;
+  transition: width 0.2s ease;
+`;
+
+// Board events tend to arrive in bursts (one per changed column)
+const EVENT_DEBOUNCE_MS = 500;
+
+// Length of items created by double-clicking the timeline
+const NEW_ITEM_WORKING_DAYS = 5;
+
+// What undoing a deletion needs to recreate the item
+interface DeletedItem {
+  item: MondayItem;
+  boardId?: string;
+  parentId?: string;
+}
+
 const App: React.FC = () => {
   const [context, setContext] = useState<WidgetContext | null>(null);
   const [boards, setBoards] = useState<MondayBoard[]>([]);
   const [tasks, setTasks] = useState<GanttTask[]>([]);
   const [settings, setSettings] = useState<GanttSettings>({
     showSubitems: true,
-    sortDirection: 'asc'
+    sortDirection: 'asc',
+    maxItemsPerBoard: DEFAULT_MAX_ITEMS_PER_BOARD
   });
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<LoadProgress | null>(null);
+  const [itemsVersion, setItemsVersion] = useState(0);
+  const [isExporting, setIsExporting] = useState(false);
+  const [includeLegend, setIncludeLegend] = useState(true);
+  const [baselines, setBaselines] = useState<TaskBaseline[]>([]);
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>([]);
+  const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
+  const [pendingSchedule, setPendingSchedule] = useState<{ moved: TaskDateChange[]; changes: TaskDateChange[] } | null>(null);
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  // Bumped to re-render the undo/redo buttons when the history changes
+  const [, setHistoryVersion] = useState(0);
+
+  const getSelectedBoardIds = (): string[] => {
+    // In board view mode, always show the current board
+    if (context?.viewMode === 'board' && context.boardIds && context.boardIds.length > 0) {
+      return context.boardIds.map(id => id.toString());
+    }
+
+    return settings.selectedBoards && settings.selectedBoards.length > 0
+      ? settings.selectedBoards
+      : boards.map(board => board.id);
+  };
+
+  const selectedBoardKey = getSelectedBoardIds().join(',');
+
+  const contextRef = useRef<WidgetContext | null>(null);
+  const lastActivityRef = useRef(Date.now());
+  // Latest undo/redo handlers for the keyboard shortcuts, which are registered once
+  const historyShortcutsRef = useRef({ undo: () => {}, redo: () => {} });
+
+  useEffect(() => {
+    contextRef.current = context;
+  }, [context]);
 
   useEffect(() => {
     initializeWidget();
+    baselineStore.load().then(setBaselines);
+
+    const unsubscribeContext = mondayService.listenForContext(newContext => {
+      const current = contextRef.current;
+      if (!current) return;
+
+      const newBoardIds: number[] = newContext.boardIds ||
+        (newContext.boardId ? [parseInt(newContext.boardId)] : current.boardIds || []);
+
+      if (newBoardIds.join(',') !== (current.boardIds || []).join(',')) {
+        initializeWidget();
+        return;
+      }
+
+      setContext({
+        ...current,
+        theme: newContext.theme || current.theme,
+        editMode: newContext.editMode ?? current.editMode
+      });
+    });
+
+    // Values from monday's own widget settings panel override saved ones
+    const unsubscribeSettings = mondayService.listenForSettings(mondaySettings => {
+      if (Object.keys(mondaySettings).length === 0) return;
+      setSettings(prev => ({ ...prev, ...mondaySettings }));
+    });
+
+    return () => {
+      unsubscribeContext();
+      unsubscribeSettings();
+    };
+  }, []);
+
+  // Text fields keep their own undo, so the shortcuts are ignored while typing
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable)) return;
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        historyShortcutsRef.current.redo();
+      } else {
+        historyShortcutsRef.current.undo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
+  // Patch only the items monday reports as changed instead of reloading every board
+  useEffect(() => {
+    if (!selectedBoardKey) return;
+
+    const selectedBoardIds = new Set(selectedBoardKey.split(','));
+    const pendingItemIds = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = async () => {
+      timer = null;
+      const itemIds = Array.from(pendingItemIds);
+      pendingItemIds.clear();
+      if (itemIds.length === 0) return;
+
+      try {
+        await applyItemChanges(itemIds, selectedBoardIds);
+      } catch (err) {
+        console.warn('Failed to apply live item changes:', err);
+      }
+    };
+
+    const unsubscribe = mondayService.listenForEvents(event => {
+      lastActivityRef.current = Date.now();
+      event.itemIds.forEach(id => pendingItemIds.add(id));
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, EVENT_DEBOUNCE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [selectedBoardKey]);
+
+  // Fallback poll for changes the event stream missed; it waits until events
+  // have been quiet for a full interval.
+  useEffect(() => {
+    const intervalMs = (settings.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS) * 1000;
+    if (!selectedBoardKey || intervalMs <= 0) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const tick = async () => {
+      const quietFor = Date.now() - lastActivityRef.current;
+      if (quietFor < intervalMs) {
+        timer = setTimeout(tick, intervalMs - quietFor);
+        return;
+      }
+
+      await loadTasks({ silent: true });
+      if (!cancelled) {
+        timer = setTimeout(tick, intervalMs);
+      }
+    };
+
+    timer = setTimeout(tick, intervalMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [selectedBoardKey, settings.pollIntervalSeconds, settings.maxItemsPerBoard]);
+
+  // Only refetch when the set of boards or the item cap changes; display
+  // settings are applied to the cached items below.
   useEffect(() => {
     if (boards.length > 0) {
       loadTasks();
     }
-  }, [boards, settings]);
+  }, [boards, selectedBoardKey, settings.maxItemsPerBoard]);
+
+  useEffect(() => {
+    if (itemsVersion > 0) {
+      setTasks(dataProcessor.processItemsToGanttTasks(settings));
+    }
+  }, [itemsVersion, settings]);
 
   const initializeWidget = async () => {
     try {
@@ -156,6 +397,7 @@ const App: React.FC = () => {
 
       const widgetContext = await mondayService.initializeWidget();
       setContext(widgetContext);
+      mondayService.loadCollapsedGroups(widgetContext.userId).then(setCollapsedGroups);
 
       const savedSettings = await mondayService.loadWidgetSettings();
       if (savedSettings) {
@@ -218,23 +460,16 @@ const App: React.FC = () => {
     }
   };
 
-  const loadTasks = async () => {
+  const loadTasks = async ({ silent = false }: { silent?: boolean } = {}) => {
     try {
-      // Auto-select boards based on context
-      let selectedBoardIds = settings.selectedBoards && settings.selectedBoards.length > 0
-        ? settings.selectedBoards
-        : boards.map(board => board.id);
-
-      // In board view mode, automatically select the current board
-      if (context?.viewMode === 'board' && context.boardIds && context.boardIds.length > 0) {
-        selectedBoardIds = context.boardIds.map(id => id.toString());
-        // Update settings to reflect the current board
-        if (!settings.selectedBoards || settings.selectedBoards.length === 0) {
-          setSettings(prev => ({
-            ...prev,
-            selectedBoards: selectedBoardIds
-          }));
-        }
+      const selectedBoardIds = getSelectedBoardIds();
+
+      // Update settings to reflect the current board in board view
+      if (context?.viewMode === 'board' && (!settings.selectedBoards || settings.selectedBoards.length === 0)) {
+        setSettings(prev => ({
+          ...prev,
+          selectedBoards: selectedBoardIds
+        }));
       }
 
       if (selectedBoardIds.length === 0) {
@@ -242,24 +477,78 @@ const App: React.FC = () => {
         return;
       }
 
-      const allItems = await mondayService.getAllBoardItems(selectedBoardIds);
+      const allItems = await mondayService.getAllBoardItems(selectedBoardIds, {
+        maxItemsPerBoard: settings.maxItemsPerBoard || DEFAULT_MAX_ITEMS_PER_BOARD,
+        onProgress: silent ? undefined : setLoadProgress
+      });
       dataProcessor.setItems(allItems);
-
-      const ganttTasks = dataProcessor.processItemsToGanttTasks(settings);
-      setTasks(ganttTasks);
+      setItemsVersion(version => version + 1);
+      lastActivityRef.current = Date.now();
 
     } catch (err) {
+      if (silent) {
+        console.warn('Background refresh failed:', err);
+        return;
+      }
       setError('Failed to load tasks. Please try again.');
       console.error('Task loading error:', err);
+    } finally {
+      setLoadProgress(null);
     }
   };
 
+  const applyItemChanges = async (itemIds: string[], selectedBoardIds: Set<string>) => {
+    const items = await mondayService.getItemsByIds(itemIds);
+    const returnedIds = new Set(items.map(item => item.id));
+    const itemsByBoard: { [boardId: string]: MondayItem[] } = {};
+
+    items.forEach(item => {
+      // Subitems belong to a separate subitems board; file them under the parent's board
+      const boardId = item.parent_item
+        ? dataProcessor.getItemBoardId(item.parent_item.id)
+        : item.board?.id;
+
+      if (!boardId || !selectedBoardIds.has(boardId)) return;
+
+      if (!itemsByBoard[boardId]) {
+        itemsByBoard[boardId] = [];
+      }
+      itemsByBoard[boardId].push(item);
+    });
+
+    Object.entries(itemsByBoard).forEach(([boardId, boardItems]) => {
+      dataProcessor.upsertItems(boardId, boardItems);
+    });
+    dataProcessor.removeItems(itemIds.filter(id => !returnedIds.has(id)));
+
+    setItemsVersion(version => version + 1);
+  };
+
   const handleSettingsChange = async (newSettings: GanttSettings) => {
     setSettings(newSettings);
     await mondayService.saveWidgetSettings(newSettings);
     mondayService.showNotice('Settings saved successfully', 'success');
   };
 
+  // View-only changes are saved silently; the settings panel shows its own notice
+  const updateViewSettings = async (changes: Partial<GanttSettings>) => {
+    const newSettings = { ...settings, ...changes };
+    setSettings(newSettings);
+    await mondayService.saveWidgetSettings(newSettings);
+  };
+
+  const handleZoomChange = (zoomLevel: ZoomLevel) => updateViewSettings({ zoomLevel });
+
+  const handleChartModeChange = (chartMode: ChartMode) => updateViewSettings({ chartMode });
+
+  // Collapsed groups are remembered per user rather than in the shared settings
+  const handleCollapsedGroupsChange = (groups: string[]) => {
+    setCollapsedGroups(groups);
+    mondayService.saveCollapsedGroups(context?.userId, groups);
+  };
+
+  const handleFiltersChange = (filters: TaskFilter[]) => updateViewSettings({ filters });
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     try {
@@ -272,24 +561,614 @@ const App: React.FC = () => {
     }
   };
 
-  const handleTaskClick = (task: GanttTask) => {
-    console.log('Task clicked:', task);
-    if (task.mirrorData && Object.keys(task.mirrorData).length > 0) {
-      let message = `Mirror data for ${task.name}:\n\n`;
-      Object.values(task.mirrorData).forEach(data => {
-        message += `${data.sourceColumnTitle}: ${data.displayValue}\n`;
-        message += `Source: ${data.sourceBoardName}\n\n`;
+  // Every loaded task, including ones hidden by filters or collapsed subitems
+  const getAllTasks = () =>
+    dataProcessor.processItemsToGanttTasks({ ...settings, filters: [], showSubitems: true });
+
+  const handleCreateBaseline = async (name: string): Promise<TaskBaseline | null> => {
+    try {
+      // Snapshot every loaded task, not just the ones the current filters show
+      const allTasks = getAllTasks();
+      const baseline = await baselineStore.createBaseline(name, allTasks);
+      setBaselines(baselineStore.getBaselines());
+      mondayService.showNotice(`Baseline "${baseline.name}" saved`, 'success');
+      return baseline;
+    } catch (err) {
+      mondayService.showNotice('Failed to save baseline', 'error');
+      return null;
+    }
+  };
+
+  const handleDeleteBaseline = async (baselineId: string) => {
+    try {
+      await baselineStore.deleteBaseline(baselineId);
+      setBaselines(baselineStore.getBaselines());
+      if (settings.baselineId === baselineId) {
+        updateViewSettings({ baselineId: undefined });
+      }
+    } catch (err) {
+      mondayService.showNotice('Failed to delete baseline', 'error');
+    }
+  };
+
+  const handleTaskClick = (task: GanttTask) => setEditingTaskId(task.id);
+
+  // New items go into the anchor's board and group (a subitem's parent group)
+  // and open in the edit panel so they can be named
+  const handleCreateTask = async (anchor: GanttTask, date: Date) => {
+    const boardId = anchor.boardId;
+    if (!boardId) return;
+
+    const source = dataProcessor.getNewItemDateSource(boardId, settings);
+    if (!source) {
+      mondayService.showNotice(`${anchor.boardName || 'This board'} has no timeline or date column for new items`, 'error');
+      return;
+    }
+
+    const parent = anchor.parentId ? tasks.find(t => t.id === anchor.parentId) : undefined;
+    const groupId = (parent || anchor).originalItem.group?.id;
+    const calendar = workCalendar.resolveCalendar(settings, boardId);
+    const startDate = workCalendar.snapToWorkingDay(calendar, date);
+    const endDate = workCalendar.addWorkingDays(calendar, startDate, NEW_ITEM_WORKING_DAYS - 1);
+
+    try {
+      const itemId = await mondayService.createItemWithDates(boardId, 'New item', source, calendar, startDate, endDate, groupId);
+      await applyItemChanges([itemId], new Set(getSelectedBoardIds()));
+      setEditingTaskId(itemId);
+
+      let deleted: DeletedItem;
+      recordCommand({
+        label: `Create item in ${anchor.boardName || 'board'}`,
+        undo: async () => {
+          deleted = await deleteItemById(itemId);
+        },
+        redo: () => recreateDeletedItem(deleted)
+      });
+    } catch (err) {
+      mondayService.showNotice('Failed to create item', 'error');
+    }
+  };
+
+  const handleTaskSave = async (task: GanttTask, changes: TaskEditChanges) => {
+    // Subitems live on their own board
+    const boardId = task.originalItem.board?.id || task.boardId;
+    if (!boardId) return;
+
+    try {
+      await mondayService.updateItem(boardId, task.id, changes);
+      await applyItemChanges([task.id], new Set(getSelectedBoardIds()));
+      mondayService.showNotice(`${changes.name || task.name} saved`, 'success');
+    } catch (err) {
+      mondayService.showNotice(`Failed to save ${task.name}`, 'error');
+    }
+  };
+
+  const handleTaskDelete = async (task: GanttTask) => {
+    const subitemCount = task.originalItem.subitems?.length || 0;
+    const confirmed = await mondayService.showConfirm(subitemCount > 0
+      ? `Delete "${task.name}" and its ${subitemCount} subitem${subitemCount !== 1 ? 's' : ''}?`
+      : `Delete "${task.name}"?`);
+    if (!confirmed) return;
+
+    try {
+      let deleted = await deleteTaskItem(task);
+      setEditingTaskId(null);
+      mondayService.showNotice(`${task.name} deleted`, 'success');
+
+      recordCommand({
+        label: `Delete ${task.name}`,
+        undo: () => recreateDeletedItem(deleted),
+        redo: async () => {
+          deleted = await deleteItemById(task.id);
+        }
       });
-      mondayService.showNotice(message, 'info');
+    } catch (err) {
+      mondayService.showNotice(`Failed to delete ${task.name}`, 'error');
     }
   };
 
   const handleTaskUpdate = async (taskId: string, startDate: Date, endDate: Date) => {
-    console.log('Task update:', taskId, startDate, endDate);
-    mondayService.showNotice('Task update functionality would be implemented here', 'info');
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    if (!task.dateSource) {
+      mondayService.showNotice(`Dates for ${task.name} can't be edited from the chart`, 'error');
+      return;
+    }
+
+    const schedulingMode = settings.schedulingMode || 'none';
+    if (schedulingMode !== 'none') {
+      // Successors hidden by filters still have to follow
+      const allTasks = getAllTasks();
+      const moved = [{ task, startDate, endDate }];
+      const changes = scheduler.cascade(allTasks, moved, schedulingMode);
+
+      if (changes.length > 0) {
+        showTaskDates([...moved, ...changes]);
+        setPendingSchedule({ moved, changes });
+        return;
+      }
+    }
+
+    const previousDates = { startDate: task.startDate, endDate: task.endDate };
+
+    // Optimistically move the bar, then roll back if monday rejects the write
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, startDate, endDate } : t));
+
+    try {
+      const written = await mondayService.updateTaskDates(task, startDate, endDate);
+      Object.entries(written).forEach(([columnId, value]) => {
+        dataProcessor.patchItemColumnValue(taskId, columnId, value);
+      });
+      recordDateChanges(`Move ${task.name}`, [{ task, startDate, endDate }]);
+    } catch (err) {
+      setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...previousDates } : t));
+      mondayService.showNotice(`Failed to update dates for ${task.name}`, 'error');
+    }
+  };
+
+  const showTaskDates = (changes: TaskDateChange[]) => {
+    const changesById = new Map(changes.map(change => [change.task.id, change]));
+    setTasks(prev => prev.map(t => {
+      const change = changesById.get(t.id);
+      return change ? { ...t, startDate: change.startDate, endDate: change.endDate } : t;
+    }));
+  };
+
+  // Each change still holds the task as it was before the move
+  const getPreviousDates = (changes: TaskDateChange[]): TaskDateChange[] =>
+    changes.map(({ task }) => ({ task, startDate: task.startDate!, endDate: task.endDate! }));
+
+  /**
+   * Shows the new dates right away and writes them in one request. monday
+   * may apply part of the request before failing, so on failure the items
+   * are refetched to show what it holds.
+   */
+  const writeTaskDates = async (changes: TaskDateChange[]) => {
+    showTaskDates(changes);
+
+    try {
+      const written = await mondayService.updateTaskDatesBatch(changes);
+      Object.entries(written).forEach(([taskId, values]) => {
+        Object.entries(values).forEach(([columnId, value]) => {
+          dataProcessor.patchItemColumnValue(taskId, columnId, value);
+        });
+      });
+    } catch (err) {
+      applyItemChanges(changes.map(change => change.task.id), new Set(getSelectedBoardIds())).catch(refetchErr => {
+        console.warn('Failed to refetch items after a failed date update:', refetchErr);
+      });
+      throw err;
+    }
+  };
+
+  const handleScheduleConfirm = async () => {
+    if (!pendingSchedule) return;
+
+    const { moved } = pendingSchedule;
+    const changes = [...moved, ...pendingSchedule.changes];
+    const movedName = moved.length === 1 ? moved[0].task.name : `${moved.length} tasks`;
+    const dependentCount = pendingSchedule.changes.length;
+    setIsSavingSchedule(true);
+
+    try {
+      await writeTaskDates(changes);
+      recordDateChanges(
+        `Move ${movedName} and ${dependentCount} dependent task${dependentCount !== 1 ? 's' : ''}`,
+        changes
+      );
+    } catch (err) {
+      mondayService.showNotice(`Failed to reschedule ${movedName} and the dependent tasks`, 'error');
+    } finally {
+      setIsSavingSchedule(false);
+      setPendingSchedule(null);
+    }
+  };
+
+  const handleScheduleCancel = () => {
+    if (!pendingSchedule) return;
+
+    showTaskDates(getPreviousDates([...pendingSchedule.moved, ...pendingSchedule.changes]));
+    setPendingSchedule(null);
+  };
+
+  const recordCommand = (command: Command) => {
+    commandHistory.record(command);
+    setHistoryVersion(version => version + 1);
+  };
+
+  // Undo writes the dates the tasks had before the move
+  const recordDateChanges = (label: string, changes: TaskDateChange[]) => {
+    // Tasks may have been recreated under new ids since
+    const resolve = (list: TaskDateChange[]) => list.map(change => ({
+      ...change,
+      task: { ...change.task, id: commandHistory.resolveId(change.task.id) }
+    }));
+    const previous = getPreviousDates(changes);
+
+    recordCommand({
+      label,
+      undo: () => writeTaskDates(resolve(previous)),
+      redo: () => writeTaskDates(resolve(changes))
+    });
+  };
+
+  const deleteTaskItem = async (task: GanttTask): Promise<DeletedItem> => {
+    await mondayService.deleteItem(task.id);
+    dataProcessor.removeItems([task.id]);
+    setItemsVersion(version => version + 1);
+    return { item: task.originalItem, boardId: task.boardId, parentId: task.parentId };
+  };
+
+  const deleteItemById = async (itemId: string): Promise<DeletedItem> => {
+    const resolvedId = commandHistory.resolveId(itemId);
+    const task = getAllTasks().find(t => t.id === resolvedId);
+    if (!task) {
+      throw new Error(`Item ${resolvedId} is not loaded`);
+    }
+    return deleteTaskItem(task);
+  };
+
+  // The copy gets new ids, so the deleted ones are aliased to them
+  const recreateDeletedItem = async ({ item, boardId, parentId }: DeletedItem) => {
+    if (!boardId) {
+      throw new Error(`Item ${item.id} has no board`);
+    }
+
+    const newIds = await mondayService.recreateItem(item, boardId, parentId && commandHistory.resolveId(parentId));
+    Object.entries(newIds).forEach(([deletedId, newId]) => commandHistory.aliasId(deletedId, newId));
+    await applyItemChanges([newIds[item.id]], new Set(getSelectedBoardIds()));
+  };
+
+  const runHistoryCommand = async (direction: 'undo' | 'redo') => {
+    if (pendingSchedule) return;
+
+    const label = direction === 'undo' ? commandHistory.getUndoLabel() : commandHistory.getRedoLabel();
+    const pending = direction === 'undo' ? commandHistory.undo() : commandHistory.redo();
+    setHistoryVersion(version => version + 1);
+
+    try {
+      await pending;
+    } catch (err) {
+      mondayService.showNotice(`Failed to ${direction} "${label}"`, 'error');
+    } finally {
+      setHistoryVersion(version => version + 1);
+    }
+  };
+
+  historyShortcutsRef.current = {
+    undo: () => runHistoryCommand('undo'),
+    redo: () => runHistoryCommand('redo')
+  };
+
+  // Used by undo and redo; the items may have been recreated under new ids since
+  const writeDependencies = async (successorId: string, predecessorIds: string[]) => {
+    const resolvedId = commandHistory.resolveId(successorId);
+    const successor = getAllTasks().find(t => t.id === resolvedId);
+    if (!successor) {
+      throw new Error(`Item ${resolvedId} is not loaded`);
+    }
+
+    await mondayService.updateDependencies(successor, predecessorIds.map(id => commandHistory.resolveId(id)));
+    await applyItemChanges([resolvedId], new Set(getSelectedBoardIds()));
+  };
+
+  /**
+   * Writes the successor's new predecessor list, showing the change right
+   * away and refetching the item afterwards. Undo writes back the previous
+   * list.
+   */
+  const saveDependencies = async (label: string, successor: GanttTask, predecessorIds: string[]) => {
+    // monday only takes item ids, so writing would turn every link into a plain finish-to-start
+    const hasLinkDetails = (successor.dependencies || []).some(dependency =>
+      dependency.type !== 'FS' || (dependency.lagDays || 0) !== 0);
+    if (hasLinkDetails) {
+      mondayService.showNotice(`${successor.name} has links with a type or lag; edit its dependencies in monday to keep them`, 'error');
+      return;
+    }
+
+    setTasks(prev => prev.map(t => t.id === successor.id
+      ? {
+        ...t,
+        dependencies: predecessorIds.map(predecessorId =>
+          (t.dependencies || []).find(dependency => dependency.predecessorId === predecessorId) ||
+          { predecessorId, type: 'FS', lagDays: 0 })
+      }
+      : t));
+
+    const previousIds = (successor.dependencies || []).map(dependency => dependency.predecessorId);
+
+    try {
+      await mondayService.updateDependencies(successor, predecessorIds);
+      recordCommand({
+        label,
+        undo: () => writeDependencies(successor.id, previousIds),
+        redo: () => writeDependencies(successor.id, predecessorIds)
+      });
+    } catch (err) {
+      mondayService.showNotice(`Failed to update dependencies of ${successor.name}`, 'error');
+    }
+
+    // Also rolls the optimistic change back when the write failed
+    applyItemChanges([successor.id], new Set(getSelectedBoardIds())).catch(err => {
+      console.warn('Failed to refetch item after updating dependencies:', err);
+    });
+  };
+
+  const handleCreateDependency = async (predecessorId: string, successorId: string) => {
+    const predecessor = tasks.find(t => t.id === predecessorId);
+    const successor = tasks.find(t => t.id === successorId);
+    if (!predecessor || !successor) return;
+
+    if (!successor.dependencyColumnId) {
+      mondayService.showNotice(`${successor.boardName || 'This board'} has no dependency column`, 'error');
+      return;
+    }
+
+    const predecessorIds = (successor.dependencies || []).map(dependency => dependency.predecessorId);
+    if (predecessorIds.includes(predecessorId)) return;
+
+    // Check against every loaded task so links hidden by filters still count
+    const allTasks = getAllTasks();
+    if (wouldCreateCycle(allTasks, predecessorId, successorId)) {
+      mondayService.showNotice(`Linking ${predecessor.name} to ${successor.name} would create a loop`, 'error');
+      return;
+    }
+
+    await saveDependencies(`Link ${predecessor.name} to ${successor.name}`, successor, [...predecessorIds, predecessorId]);
+  };
+
+  const handleRemoveDependency = async (predecessorId: string, successorId: string) => {
+    const successor = tasks.find(t => t.id === successorId);
+    if (!successor) return;
+
+    const predecessor = tasks.find(t => t.id === predecessorId);
+    await saveDependencies(
+      predecessor ? `Remove link from ${predecessor.name} to ${successor.name}` : `Remove link to ${successor.name}`,
+      successor,
+      (successor.dependencies || [])
+        .map(dependency => dependency.predecessorId)
+        .filter(id => id !== predecessorId)
+    );
+  };
+
+  const handleTasksMove = async (changes: TaskDateChange[]) => {
+    const editable = changes.filter(change => change.task.dateSource);
+    if (editable.length < changes.length) {
+      const skipped = changes.length - editable.length;
+      mondayService.showNotice(`Dates of ${skipped} task${skipped !== 1 ? 's' : ''} can't be edited from the chart`, 'error');
+    }
+    if (editable.length === 0) return;
+
+    const schedulingMode = settings.schedulingMode || 'none';
+    if (schedulingMode !== 'none') {
+      // Dependent tasks outside the selection follow, previewed like a single drag
+      const dependentChanges = scheduler.cascade(getAllTasks(), editable, schedulingMode);
+
+      if (dependentChanges.length > 0) {
+        showTaskDates([...editable, ...dependentChanges]);
+        setPendingSchedule({ moved: editable, changes: dependentChanges });
+        return;
+      }
+    }
+
+    try {
+      await writeTaskDates(editable);
+      recordDateChanges(`Move ${editable.length} task${editable.length !== 1 ? 's' : ''}`, editable);
+    } catch (err) {
+      mondayService.showNotice(`Failed to move ${editable.length} task${editable.length !== 1 ? 's' : ''}`, 'error');
+    }
+  };
+
+  /**
+   * Writes one column on each task in one request and records it; undo
+   * writes back what the columns held before, clearing empty ones.
+   */
+  const updateTaskColumns = async (label: string, updates: { task: GanttTask; columnId: string; value: any }[]) => {
+    if (updates.length === 0) return;
+
+    const previousValues = updates.map(({ task, columnId }) => {
+      const column = task.originalItem.column_values.find(cv => cv.id === columnId);
+      return (column && getWritableColumnValue(column)) ?? {};
+    });
+
+    // Resolved on every write, since items may have been recreated under new ids
+    const toItemUpdates = (values: any[]): ItemColumnUpdate[] => updates.map(({ task, columnId }, index) => ({
+      boardId: mondayService.getTaskBoardId(task),
+      itemId: commandHistory.resolveId(task.id),
+      values: { [columnId]: values[index] }
+    }));
+
+    const write = async (itemUpdates: ItemColumnUpdate[]) => {
+      await mondayService.updateColumnValuesBatch(itemUpdates);
+      await applyItemChanges(itemUpdates.map(update => update.itemId), new Set(getSelectedBoardIds()));
+    };
+
+    const newValues = updates.map(update => update.value);
+
+    try {
+      await write(toItemUpdates(newValues));
+      recordCommand({
+        label,
+        undo: () => write(toItemUpdates(previousValues)),
+        redo: () => write(toItemUpdates(newValues))
+      });
+    } catch (err) {
+      mondayService.showNotice(`Failed to update ${updates.length} task${updates.length !== 1 ? 's' : ''}`, 'error');
+    }
+  };
+
+  const notifyMissingColumn = (skipped: number, columnKind: string) => {
+    if (skipped > 0) {
+      mondayService.showNotice(`${skipped} task${skipped !== 1 ? 's have' : ' has'} no ${columnKind} column`, 'error');
+    }
+  };
+
+  // The color-by column when it's a status column, else each item's first one
+  const handleBulkSetStatus = async (selected: GanttTask[], label: string) => {
+    const updates = selected.flatMap(task => {
+      const item = task.originalItem;
+      const columnId = findColumnId(item.column_values, STATUS_TYPES, resolveItemColumnId(item, settings.colorByColumn));
+      return columnId ? [{ task, columnId, value: { label } }] : [];
+    });
+
+    notifyMissingColumn(selected.length - updates.length, 'status');
+    await updateTaskColumns(`Set status of ${updates.length} task${updates.length !== 1 ? 's' : ''} to ${label}`, updates);
+  };
+
+  // Adds the person to each task's people column, keeping who's already there
+  const handleBulkAssign = async (selected: GanttTask[], user: MondayUser) => {
+    let missing = 0;
+    const updates = selected.flatMap(task => {
+      const item = task.originalItem;
+      const columnId = findColumnId(item.column_values, PEOPLE_TYPES, resolveItemColumnId(item, settings.peopleColumn));
+      if (!columnId) {
+        missing++;
+        return [];
+      }
+
+      const current: any[] = parseJson(item.column_values.find(cv => cv.id === columnId)?.value)?.personsAndTeams || [];
+      if (current.some(entry => entry.kind !== 'team' && String(entry.id) === user.id)) return [];
+
+      return [{
+        task,
+        columnId,
+        value: { personsAndTeams: [...current, { id: Number(user.id), kind: 'person' }] }
+      }];
+    });
+
+    notifyMissingColumn(missing, 'people');
+    await updateTaskColumns(`Assign ${user.name} to ${updates.length} task${updates.length !== 1 ? 's' : ''}`, updates);
+  };
+
+  const handleBulkDelete = async (selected: GanttTask[]) => {
+    // Subitems go with their parent
+    const selectedIds = new Set(selected.map(task => task.id));
+    const toDelete = selected.filter(task => !task.parentId || !selectedIds.has(task.parentId));
+    const subitemCount = toDelete.reduce((count, task) => count + (task.originalItem.subitems?.length || 0), 0);
+
+    const confirmed = await mondayService.showConfirm(
+      `Delete ${toDelete.length} item${toDelete.length !== 1 ? 's' : ''}` +
+      (subitemCount > 0 ? ` and ${subitemCount} subitem${subitemCount !== 1 ? 's' : ''}?` : '?')
+    );
+    if (!confirmed) return;
+
+    let deleted: DeletedItem[] = [];
+    try {
+      for (const task of toDelete) {
+        deleted.push(await deleteTaskItem(task));
+      }
+      mondayService.showNotice(`${deleted.length} item${deleted.length !== 1 ? 's' : ''} deleted`, 'success');
+    } catch (err) {
+      mondayService.showNotice(`Failed to delete ${toDelete.length - deleted.length} of ${toDelete.length} items`, 'error');
+    }
+
+    if (editingTaskId && deleted.some(({ item }) => item.id === editingTaskId)) {
+      setEditingTaskId(null);
+    }
+    if (deleted.length === 0) return;
+
+    const deletedIds = deleted.map(({ item }) => item.id);
+    recordCommand({
+      label: `Delete ${deleted.length} item${deleted.length !== 1 ? 's' : ''}`,
+      undo: async () => {
+        for (const item of deleted) {
+          await recreateDeletedItem(item);
+        }
+      },
+      redo: async () => {
+        const next: DeletedItem[] = [];
+        for (const itemId of deletedIds) {
+          next.push(await deleteItemById(itemId));
+        }
+        deleted = next;
+      }
+    });
   };
 
   const availableColumns = dataProcessor.getAvailableColumns();
+  const editingTask = editingTaskId ? tasks.find(task => task.id === editingTaskId) : undefined;
+
+  // Mixed dashboards shade the default calendar; a single board uses its own
+  const selectedBoardIds = getSelectedBoardIds();
+  const chartCalendar = workCalendar.resolveCalendar(
+    settings,
+    selectedBoardIds.length === 1 ? selectedBoardIds[0] : undefined
+  );
+
+  // Offered for bulk status changes: the labels of each board's status column
+  const statusLabels = Array.from(new Set(boards
+    .filter(board => selectedBoardIds.includes(board.id))
+    .flatMap(board => {
+      const columnId = findColumnId(board.columns, STATUS_TYPES, resolveBoardColumnId(board, settings.colorByColumn));
+      return getColumnLabels(board.columns.find(column => column.id === columnId));
+    })));
+
+  const getChartExportOptions = (): ChartExportOptions => {
+    const boardNames = boards
+      .filter(board => selectedBoardIds.includes(board.id))
+      .map(board => board.name);
+
+    return {
+      title: boardNames.length > 0 ? boardNames.join(', ') : 'Enhanced Gantt Chart',
+      theme: context?.theme || 'light',
+      zoomLevel: settings.zoomLevel,
+      showCriticalPath: settings.showCriticalPath,
+      showMilestoneLane: settings.showMilestoneLane,
+      calendar: chartCalendar,
+      includeLegend,
+      legendTitle: settings.colorByColumn
+        ? availableColumns.find(column => column.id === settings.colorByColumn)?.title
+        : 'Group'
+    };
+  };
+
+  const runExport = async (formatName: string, exportFn: () => Promise<void>) => {
+    setIsExporting(true);
+    try {
+      await exportFn();
+    } catch (err) {
+      console.error(`${formatName} export failed:`, err);
+      mondayService.showNotice(`Failed to export ${formatName}`, 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportItems: ExportMenuItem[] = [
+    {
+      label: 'Image (PNG)',
+      onSelect: () => runExport('PNG', () => chartExporter.exportPng(tasks, getChartExportOptions()))
+    },
+    {
+      label: 'Vector image (SVG)',
+      onSelect: () => runExport('SVG', () => chartExporter.exportSvg(tasks, getChartExportOptions()))
+    },
+    {
+      label: 'PDF document',
+      onSelect: () => runExport('PDF', () => chartExporter.exportPdf(tasks, getChartExportOptions()))
+    },
+    {
+      label: 'Spreadsheet (CSV)',
+      onSelect: () => runExport('CSV', async () =>
+        tableExporter.exportCsv(tasks, dataProcessor.getExportMirrorColumns(settings)))
+    },
+    {
+      label: 'Excel workbook (XLSX)',
+      onSelect: () => runExport('XLSX', async () =>
+        tableExporter.exportXlsx(tasks, dataProcessor.getExportMirrorColumns(settings)))
+    },
+    {
+      label: 'MS Project (XML)',
+      onSelect: () => runExport('MS Project', async () =>
+        scheduleExporter.exportMsProject(tasks, { title: getChartExportOptions().title }))
+    },
+    {
+      label: 'Calendar (ICS)',
+      onSelect: () => runExport('calendar', async () =>
+        scheduleExporter.exportIcs(tasks, { title: getChartExportOptions().title }))
+    }
+  ];
 
   if (loading) {
     return (
@@ -324,6 +1203,69 @@ const App: React.FC = () => {
       <Header theme={context?.theme || 'light'}>
         <Title>Enhanced Gantt Chart</Title>
         <HeaderActions>
+          {loadProgress && (
+            <ProgressText theme={context?.theme || 'light'}>
+              Loading items… {loadProgress.itemsLoaded} loaded
+              ({loadProgress.boardsLoaded}/{loadProgress.totalBoards} boards)
+            </ProgressText>
+          )}
+          <Button
+            theme={context?.theme || 'light'}
+            onClick={() => runHistoryCommand('undo')}
+            disabled={!commandHistory.canUndo()}
+            title={commandHistory.getUndoLabel() ? `Undo ${commandHistory.getUndoLabel()} (Ctrl+Z)` : 'Nothing to undo'}
+          >
+            Undo
+          </Button>
+          <Button
+            theme={context?.theme || 'light'}
+            onClick={() => runHistoryCommand('redo')}
+            disabled={!commandHistory.canRedo()}
+            title={commandHistory.getRedoLabel() ? `Redo ${commandHistory.getRedoLabel()} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+          >
+            Redo
+          </Button>
+          <HeaderSelect
+            theme={context?.theme || 'light'}
+            value={settings.chartMode || 'timeline'}
+            onChange={(e) => handleChartModeChange(e.target.value as ChartMode)}
+            aria-label="View"
+          >
+            <option value="timeline">Timeline</option>
+            <option value="resources">Resources</option>
+          </HeaderSelect>
+          <HeaderSelect
+            theme={context?.theme || 'light'}
+            value={settings.zoomLevel || DEFAULT_ZOOM_LEVEL}
+            onChange={(e) => handleZoomChange(e.target.value as ZoomLevel)}
+            aria-label="Zoom level"
+          >
+            {(Object.keys(ZOOM_LEVELS) as ZoomLevel[]).map(level => (
+              <option key={level} value={level}>{ZOOM_LEVELS[level].label}</option>
+            ))}
+          </HeaderSelect>
+          <ExportMenu
+            items={exportItems}
+            theme={context?.theme || 'light'}
+            disabled={isExporting || tasks.length === 0}
+            label={isExporting ? 'Exporting...' : 'Export'}
+          >
+            <label>
+              <input
+                type="checkbox"
+                checked={includeLegend}
+                onChange={(e) => setIncludeLegend(e.target.checked)}
+              />
+              {' '}Include color legend
+            </label>
+          </ExportMenu>
+          <Button
+            theme={context?.theme || 'light'}
+            onClick={() => setShowImport(true)}
+            disabled={boards.length === 0}
+          >
+            Import
+          </Button>
           <Button
             theme={context?.theme || 'light'}
             onClick={handleRefresh}
@@ -341,25 +1283,105 @@ const App: React.FC = () => {
         </HeaderActions>
       </Header>
 
+      <FilterBar
+        filters={settings.filters || []}
+        availableColumns={availableColumns}
+        getValueOptions={(columnId) => dataProcessor.getColumnValueOptions(columnId)}
+        onFiltersChange={handleFiltersChange}
+        theme={context?.theme || 'light'}
+      />
+
+      {loadProgress && (
+        <ProgressTrack theme={context?.theme || 'light'}>
+          <ProgressFill
+            percent={loadProgress.totalBoards > 0
+              ? (loadProgress.boardsLoaded / loadProgress.totalBoards) * 100
+              : 0}
+          />
+        </ProgressTrack>
+      )}
+
       <Content>
-        <GanttChart
-          tasks={tasks}
+        {settings.chartMode === 'resources' ? (
+          <ResourceView
+            tasks={tasks}
+            theme={context?.theme || 'light'}
+            zoomLevel={settings.zoomLevel}
+            capacity={settings.resourceCapacity}
+            calendar={chartCalendar}
+            onTaskClick={handleTaskClick}
+            onTaskUpdate={handleTaskUpdate}
+          />
+        ) : (
+          <GanttChart
+            tasks={tasks}
+            theme={context?.theme || 'light'}
+            zoomLevel={settings.zoomLevel}
+            showCriticalPath={settings.showCriticalPath}
+            baseline={baselineStore.getBaseline(settings.baselineId)}
+            showMilestoneLane={settings.showMilestoneLane}
+            calendar={chartCalendar}
+            collapsedGroups={collapsedGroups}
+            onCollapsedGroupsChange={handleCollapsedGroupsChange}
+            onCreateTask={handleCreateTask}
+            onCreateDependency={handleCreateDependency}
+            onRemoveDependency={handleRemoveDependency}
+            onTaskClick={handleTaskClick}
+            onTaskUpdate={handleTaskUpdate}
+            onTasksMove={handleTasksMove}
+            statusLabels={statusLabels}
+            onBulkSetStatus={handleBulkSetStatus}
+            onBulkAssign={handleBulkAssign}
+            onBulkDelete={handleBulkDelete}
+          />
+        )}
+      </Content>
+
+      {editingTask && (
+        <TaskEditPanel
+          task={editingTask}
+          board={boards.find(board => board.id === (editingTask.originalItem.board?.id || editingTask.boardId))}
+          onSave={handleTaskSave}
+          onDelete={handleTaskDelete}
+          onClose={() => setEditingTaskId(null)}
           theme={context?.theme || 'light'}
-          onTaskClick={handleTaskClick}
-          onTaskUpdate={handleTaskUpdate}
         />
-      </Content>
+      )}
+
+      {pendingSchedule && (
+        <SchedulePreview
+          moved={pendingSchedule.moved}
+          changes={pendingSchedule.changes}
+          saving={isSavingSchedule}
+          onConfirm={handleScheduleConfirm}
+          onCancel={handleScheduleCancel}
+          theme={context?.theme || 'light'}
+        />
+      )}
 
       {showSettings && (
         <SettingsPanel
           settings={settings}
           boards={boards}
           availableColumns={availableColumns}
+          baselines={baselines}
+          onCreateBaseline={handleCreateBaseline}
+          onDeleteBaseline={handleDeleteBaseline}
           onSettingsChange={handleSettingsChange}
           onClose={() => setShowSettings(false)}
           theme={context?.theme || 'light'}
         />
       )}
+
+      {showImport && (
+        <ImportWizard
+          boards={boards}
+          defaultBoardId={getSelectedBoardIds()[0]}
+          onImported={() => loadTasks({ silent: true })}
+          onClose={() => setShowImport(false)}
+          theme={context?.theme || 'light'}
+        />
+      )}
     </AppContainer>
   );
 };
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { GanttTask } from '../types';
+import {
+  ROW_HEIGHT,
+  TASK_LIST_WIDTH,
+  buildDependencyPath,
+  getTaskGeometry
+} from '../utils/layout';
+
+interface DependencyArrowsProps {
+  // The task on each row, or null for rows without one such as group headers.
+  // Tasks without dates have no bar to link.
+  tasks: Array<GanttTask | null>;
+  // Milestones shown in the lane just above the first row
+  laneTasks?: GanttTask[];
+  startDate: Date;
+  dayWidth: number;
+  width: number;
+  theme: 'light' | 'dark';
+  criticalTaskIds?: Set<string>;
+  // Only arrows that touch or cross these rows are drawn
+  visibleRows?: { first: number; last: number };
+  // Enables removing a link from its arrow's context menu
+  onRemoveDependency?: (predecessorId: string, successorId: string) => void;
+}
+
+interface Arrow {
+  key: string;
+  predecessorId: string;
+  successorId: string;
+  path: string;
+  isCritical: boolean;
+  firstRow: number;
+  lastRow: number;
+}
+
+const CRITICAL_COLOR = '#e2445c';
+
+// The milestone lane sits one row above the first task row
+const LANE_ROW = -1;
+
+const Overlay = styled.svg`
+  position: absolute;
+  top: 0;
+  left: ${TASK_LIST_WIDTH}px;
+  pointer-events: none;
+  overflow: visible;
+  z-index: 1;
+`;
+
+// Invisible, wider copy of an arrow so it is easy to right-click
+const HitPath = styled.path`
+  pointer-events: stroke;
+  cursor: context-menu;
+`;
+
+const ContextMenu = styled.div<{ theme: 'light' | 'dark' }>`
+  position: fixed;
+  z-index: 1000;
+  min-width: 160px;
+  padding: 4px 0;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+`;
+
+const MenuItem = styled.button<{ theme: 'light' | 'dark' }>`
+  display: block;
+  width: 100%;
+  padding: 8px 12px;
+  border: none;
+  background: none;
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#f5f6f8'};
+  }
+`;
+
+const DependencyArrows: React.FC<DependencyArrowsProps> = ({
+  tasks,
+  laneTasks = [],
+  startDate,
+  dayWidth,
+  width,
+  theme,
+  criticalTaskIds,
+  visibleRows,
+  onRemoveDependency
+}) => {
+  const [menu, setMenu] = useState<{ arrow: Arrow; x: number; y: number } | null>(null);
+
+  // Any click or scroll elsewhere dismisses the menu
+  useEffect(() => {
+    if (!menu) return;
+
+    const close = () => setMenu(null);
+    document.addEventListener('mousedown', close);
+    document.addEventListener('scroll', close, true);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('scroll', close, true);
+    };
+  }, [menu]);
+
+  const arrows = useMemo(() => {
+    const positioned: Array<{ task: GanttTask; row: number }> = [
+      ...laneTasks.map(task => ({ task, row: LANE_ROW })),
+      ...tasks.flatMap((task, index) => task?.startDate && task.endDate ? [{ task, row: index }] : [])
+    ];
+    const byId = new Map(positioned.map(entry => [entry.task.id, entry]));
+
+    const getGeometry = (task: GanttTask) => getTaskGeometry(task, startDate, dayWidth);
+
+    const result: Arrow[] = [];
+
+    positioned.forEach(({ task, row: successorIndex }) => {
+      (task.dependencies || []).forEach(dependency => {
+        const predecessor = byId.get(dependency.predecessorId);
+        if (!predecessor) return;
+        const predecessorIndex = predecessor.row;
+
+        result.push({
+          key: `${dependency.predecessorId}-${task.id}-${dependency.type}`,
+          predecessorId: dependency.predecessorId,
+          successorId: task.id,
+          path: buildDependencyPath(
+            getGeometry(predecessor.task),
+            predecessorIndex,
+            getGeometry(task),
+            successorIndex,
+            dependency.type
+          ),
+          isCritical: !!criticalTaskIds?.has(task.id) && criticalTaskIds.has(dependency.predecessorId),
+          firstRow: Math.min(predecessorIndex, successorIndex),
+          lastRow: Math.max(predecessorIndex, successorIndex)
+        });
+      });
+    });
+
+    return result;
+  }, [tasks, laneTasks, startDate, dayWidth, criticalTaskIds]);
+
+  // Arrows within the lane are always drawn, like the lane itself
+  const visibleArrows = visibleRows
+    ? arrows.filter(arrow => arrow.lastRow === LANE_ROW ||
+      (arrow.lastRow >= visibleRows.first && arrow.firstRow <= visibleRows.last))
+    : arrows;
+
+  if (visibleArrows.length === 0) return null;
+
+  const color = theme === 'dark' ? '#8a93a6' : '#676879';
+
+  const handleContextMenu = (e: React.MouseEvent, arrow: Arrow) => {
+    e.preventDefault();
+    setMenu({ arrow, x: e.clientX, y: e.clientY });
+  };
+
+  return (
+    <>
+      <Overlay width={width} height={tasks.length * ROW_HEIGHT}>
+        <defs>
+          <marker
+            id="gantt-arrowhead"
+            viewBox="0 0 8 8"
+            refX="7"
+            refY="4"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto"
+          >
+            <path d="M 0 0 L 8 4 L 0 8 z" fill={color} />
+          </marker>
+          <marker
+            id="gantt-arrowhead-critical"
+            viewBox="0 0 8 8"
+            refX="7"
+            refY="4"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto"
+          >
+            <path d="M 0 0 L 8 4 L 0 8 z" fill={CRITICAL_COLOR} />
+          </marker>
+        </defs>
+        {visibleArrows.map(arrow => (
+          <path
+            key={arrow.key}
+            d={arrow.path}
+            fill="none"
+            stroke={arrow.isCritical ? CRITICAL_COLOR : color}
+            strokeWidth={arrow.isCritical ? 2 : 1.5}
+            markerEnd={arrow.isCritical ? 'url(#gantt-arrowhead-critical)' : 'url(#gantt-arrowhead)'}
+          />
+        ))}
+        {onRemoveDependency && visibleArrows.map(arrow => (
+          <HitPath
+            key={`hit-${arrow.key}`}
+            d={arrow.path}
+            fill="none"
+            stroke="transparent"
+            strokeWidth={10}
+            onContextMenu={(e) => handleContextMenu(e, arrow)}
+          />
+        ))}
+      </Overlay>
+      {menu && onRemoveDependency && (
+        <ContextMenu theme={theme} style={{ left: menu.x, top: menu.y }} onMouseDown={(e) => e.stopPropagation()}>
+          <MenuItem
+            theme={theme}
+            onClick={() => {
+              onRemoveDependency(menu.arrow.predecessorId, menu.arrow.successorId);
+              setMenu(null);
+            }}
+          >
+            Remove dependency
+          </MenuItem>
+        </ContextMenu>
+      )}
+    </>
+  );
+};
+
+export default DependencyArrows;
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import styled from 'styled-components';
+
+export interface ExportMenuItem {
+  label: string;
+  onSelect: () => void;
+}
+
+interface ExportMenuProps {
+  items: ExportMenuItem[];
+  theme: 'light' | 'dark';
+  disabled?: boolean;
+  label?: string;
+  // Optional extra controls shown above the items, e.g. export options
+  children?: React.ReactNode;
+}
+
+const MenuContainer = styled.div`
+  position: relative;
+`;
+
+const TriggerButton = styled.button<{ theme: 'light' | 'dark' }>`
+  padding: 8px 16px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? 'transparent' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+
+  &:focus {
+    outline: none;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const Dropdown = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  top: calc(100% + 4px);
+  right: 0;
+  min-width: 200px;
+  padding: 4px 0;
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.2);
+  z-index: 100;
+`;
+
+const MenuOption = styled.button<{ theme: 'light' | 'dark' }>`
+  display: block;
+  width: 100%;
+  padding: 8px 16px;
+  border: none;
+  background: none;
+  color: inherit;
+  font-size: 14px;
+  text-align: left;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+`;
+
+const ExtraControls = styled.div<{ theme: 'light' | 'dark' }>`
+  padding: 8px 16px;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
+  font-size: 13px;
+`;
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  items,
+  theme,
+  disabled,
+  label = 'Export',
+  children
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <MenuContainer ref={containerRef}>
+      <TriggerButton theme={theme} disabled={disabled} onClick={() => setOpen(!open)}>
+        {label} ▾
+      </TriggerButton>
+      {open && (
+        <Dropdown theme={theme}>
+          {children && <ExtraControls theme={theme}>{children}</ExtraControls>}
+          {items.map(item => (
+            <MenuOption
+              key={item.label}
+              theme={theme}
+              onClick={() => {
+                setOpen(false);
+                item.onSelect();
+              }}
+            >
+              {item.label}
+            </MenuOption>
+          ))}
+        </Dropdown>
+      )}
+    </MenuContainer>
+  );
+};
+
+export default ExportMenu;
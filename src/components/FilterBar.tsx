@@ -0,0 +1,360 @@
+import React, { useState } from 'react';
+import styled from 'styled-components';
+import { AvailableColumn, FilterOperator, TaskFilter } from '../types';
+import filterEngine, { FILTER_OPERATOR_LABELS } from '../services/filterEngine';
+
+interface FilterBarProps {
+  filters: TaskFilter[];
+  availableColumns: AvailableColumn[];
+  getValueOptions: (columnId: string) => string[];
+  onFiltersChange: (filters: TaskFilter[]) => void;
+  theme: 'light' | 'dark';
+}
+
+const BarContainer = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: flex-start;
+  gap: 8px;
+  padding: 8px 24px;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  font-size: 13px;
+`;
+
+const BarLabel = styled.span`
+  font-weight: 600;
+  line-height: 28px;
+`;
+
+const Chip = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  height: 28px;
+  padding: 0 4px 0 10px;
+  border-radius: 14px;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  cursor: pointer;
+  max-width: 360px;
+`;
+
+const ChipText = styled.span`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const ChipRemove = styled.button<{ theme: 'light' | 'dark' }>`
+  border: none;
+  background: none;
+  color: inherit;
+  font-size: 16px;
+  line-height: 1;
+  cursor: pointer;
+  padding: 2px 6px;
+  border-radius: 50%;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+`;
+
+const LinkButton = styled.button`
+  border: none;
+  background: none;
+  color: #037f4c;
+  font-size: 13px;
+  font-weight: 500;
+  cursor: pointer;
+  height: 28px;
+  padding: 0 4px;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const Editor = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: flex-start;
+  gap: 8px;
+  padding: 8px;
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+`;
+
+const Field = styled.select<{ theme: 'light' | 'dark' }>`
+  height: 28px;
+  padding: 0 8px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 13px;
+`;
+
+const TextField = styled.input<{ theme: 'light' | 'dark' }>`
+  height: 28px;
+  box-sizing: border-box;
+  padding: 0 8px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 13px;
+  width: 140px;
+`;
+
+const OptionList = styled.div<{ theme: 'light' | 'dark' }>`
+  max-height: 120px;
+  min-width: 180px;
+  overflow-y: auto;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  padding: 4px 8px;
+`;
+
+const OptionLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  padding: 2px 0;
+  cursor: pointer;
+
+  input {
+    accent-color: #037f4c;
+  }
+`;
+
+const EmptyOptions = styled.div`
+  opacity: 0.7;
+  padding: 4px 0;
+`;
+
+const createFilterId = () => `filter-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const FilterBar: React.FC<FilterBarProps> = ({
+  filters,
+  availableColumns,
+  getValueOptions,
+  onFiltersChange,
+  theme
+}) => {
+  const [draft, setDraft] = useState<TaskFilter | null>(null);
+
+  const getColumn = (columnId: string) => availableColumns.find(column => column.id === columnId);
+
+  const startNewFilter = () => {
+    const column = availableColumns[0];
+    if (!column) return;
+
+    setDraft({
+      id: createFilterId(),
+      columnId: column.id,
+      operator: filterEngine.getOperatorsForColumnType(column.type)[0]
+    });
+  };
+
+  const handleColumnChange = (columnId: string) => {
+    const column = getColumn(columnId);
+    if (!column || !draft) return;
+
+    setDraft({
+      id: draft.id,
+      columnId,
+      operator: filterEngine.getOperatorsForColumnType(column.type)[0]
+    });
+  };
+
+  const handleApply = () => {
+    if (!draft || !filterEngine.isComplete(draft)) return;
+
+    const exists = filters.some(filter => filter.id === draft.id);
+    onFiltersChange(exists
+      ? filters.map(filter => filter.id === draft.id ? draft : filter)
+      : [...filters, draft]);
+    setDraft(null);
+  };
+
+  const handleRemove = (filterId: string) => {
+    onFiltersChange(filters.filter(filter => filter.id !== filterId));
+    if (draft?.id === filterId) setDraft(null);
+  };
+
+  const describeFilter = (filter: TaskFilter) => {
+    const columnTitle = getColumn(filter.columnId)?.title || filter.columnId;
+    let value = '';
+
+    switch (filter.operator) {
+      case 'is_any_of':
+      case 'assigned_to':
+        value = (filter.values || []).join(', ');
+        break;
+      case 'between':
+        value = `${filter.min ?? '…'} – ${filter.max ?? '…'}`;
+        break;
+      case 'overlaps':
+        value = `${filter.from || '…'} – ${filter.to || '…'}`;
+        break;
+      case 'contains':
+        value = `"${filter.text}"`;
+        break;
+    }
+
+    return `${columnTitle} ${FILTER_OPERATOR_LABELS[filter.operator]} ${value}`;
+  };
+
+  const toggleValue = (value: string, checked: boolean) => {
+    if (!draft) return;
+    const values = draft.values || [];
+    setDraft({
+      ...draft,
+      values: checked ? [...values, value] : values.filter(v => v !== value)
+    });
+  };
+
+  const parseOptionalNumber = (value: string) => value === '' ? undefined : parseFloat(value);
+
+  const renderValueEditor = (filter: TaskFilter) => {
+    switch (filter.operator) {
+      case 'is_any_of':
+      case 'assigned_to': {
+        const options = getValueOptions(filter.columnId);
+        return (
+          <OptionList theme={theme}>
+            {options.length === 0 && <EmptyOptions>No values found</EmptyOptions>}
+            {options.map(option => (
+              <OptionLabel key={option}>
+                <input
+                  type="checkbox"
+                  checked={(filter.values || []).includes(option)}
+                  onChange={(e) => toggleValue(option, e.target.checked)}
+                />
+                {option}
+              </OptionLabel>
+            ))}
+          </OptionList>
+        );
+      }
+      case 'between':
+        return (
+          <>
+            <TextField
+              theme={theme}
+              type="number"
+              placeholder="Min"
+              value={filter.min ?? ''}
+              onChange={(e) => setDraft({ ...filter, min: parseOptionalNumber(e.target.value) })}
+            />
+            <TextField
+              theme={theme}
+              type="number"
+              placeholder="Max"
+              value={filter.max ?? ''}
+              onChange={(e) => setDraft({ ...filter, max: parseOptionalNumber(e.target.value) })}
+            />
+          </>
+        );
+      case 'overlaps':
+        return (
+          <>
+            <TextField
+              theme={theme}
+              type="date"
+              value={filter.from || ''}
+              onChange={(e) => setDraft({ ...filter, from: e.target.value || undefined })}
+            />
+            <TextField
+              theme={theme}
+              type="date"
+              value={filter.to || ''}
+              onChange={(e) => setDraft({ ...filter, to: e.target.value || undefined })}
+            />
+          </>
+        );
+      case 'contains':
+        return (
+          <TextField
+            theme={theme}
+            type="text"
+            placeholder="Text"
+            value={filter.text || ''}
+            onChange={(e) => setDraft({ ...filter, text: e.target.value })}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  const draftColumn = draft ? getColumn(draft.columnId) : undefined;
+
+  return (
+    <BarContainer theme={theme}>
+      <BarLabel>Filters</BarLabel>
+
+      {filters.map(filter => (
+        <Chip key={filter.id} theme={theme} onClick={() => setDraft(filter)} title={describeFilter(filter)}>
+          <ChipText>{describeFilter(filter)}</ChipText>
+          <ChipRemove
+            theme={theme}
+            aria-label="Remove filter"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleRemove(filter.id);
+            }}
+          >
+            ×
+          </ChipRemove>
+        </Chip>
+      ))}
+
+      {draft ? (
+        <Editor theme={theme}>
+          <Field
+            theme={theme}
+            value={draft.columnId}
+            onChange={(e) => handleColumnChange(e.target.value)}
+          >
+            {availableColumns.map(column => (
+              <option key={column.id} value={column.id}>{column.title}</option>
+            ))}
+          </Field>
+          <Field
+            theme={theme}
+            value={draft.operator}
+            onChange={(e) => setDraft({
+              id: draft.id,
+              columnId: draft.columnId,
+              operator: e.target.value as FilterOperator
+            })}
+          >
+            {filterEngine.getOperatorsForColumnType(draftColumn?.type || 'text').map(operator => (
+              <option key={operator} value={operator}>{FILTER_OPERATOR_LABELS[operator]}</option>
+            ))}
+          </Field>
+          {renderValueEditor(draft)}
+          <LinkButton onClick={handleApply} disabled={!filterEngine.isComplete(draft)}>
+            Apply
+          </LinkButton>
+          <LinkButton onClick={() => setDraft(null)}>Cancel</LinkButton>
+        </Editor>
+      ) : (
+        <LinkButton onClick={startNewFilter} disabled={availableColumns.length === 0}>
+          + Add filter
+        </LinkButton>
+      )}
+
+      {filters.length > 0 && !draft && (
+        <LinkButton onClick={() => onFiltersChange([])}>Clear all</LinkButton>
+      )}
+    </BarContainer>
+  );
+};
+
+export default FilterBar;
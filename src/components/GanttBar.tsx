@@ -1,6 +1,10 @@
 import React, { useState, useRef } from 'react';
 import styled from 'styled-components';
-import { GanttTask } from '../types';
+import { GanttTask, TaskSchedule } from '../types';
+import { BAR_HEIGHT, BAR_TOP, MILESTONE_SIZE, getBarGeometry, getMilestoneGeometry } from '../utils/layout';
+import baselineStore from '../services/baselineStore';
+import workCalendar, { STANDARD_CALENDAR } from '../services/workCalendar';
+import scheduler from '../services/scheduler';
 import moment from 'moment';
 
 interface GanttBarProps {
@@ -8,35 +12,59 @@ interface GanttBarProps {
   startDate: Date;
   dayWidth: number;
   theme: 'light' | 'dark';
-  onClick?: () => void;
+  schedule?: TaskSchedule;
+  baseline?: { startDate: Date; endDate: Date };
+  isSelected?: boolean;
+  // Days another selected bar is being dragged by; this bar previews the same move
+  dragOffsetDays?: number;
+  onClick?: (e: React.MouseEvent) => void;
   onUpdate?: (taskId: string, startDate: Date, endDate: Date) => void;
+  // Replaces onUpdate for moves when the bar is part of a selection: reports
+  // the drag in days while it happens and once more when it ends
+  onGroupDrag?: (deltaDays: number, isDone: boolean) => void;
+  // Called when a link is dragged out of the bar's connector dot
+  onLinkStart?: (task: GanttTask, e: React.MouseEvent) => void;
 }
 
-const BarContainer = styled.div<{ left: number; width: number }>`
+// Position and width are passed as inline styles; generating a class per
+// bar position is expensive with thousands of bars.
+const BarContainer = styled.div`
   position: absolute;
-  left: ${props => props.left}px;
-  width: ${props => props.width}px;
-  height: 24px;
-  top: 8px;
+  height: ${BAR_HEIGHT}px;
+  top: ${BAR_TOP}px;
   cursor: pointer;
   user-select: none;
 `;
 
+// Drawn in the gap below the live bar so both stay readable
+const BaselineBar = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  top: ${BAR_TOP + BAR_HEIGHT + 2}px;
+  height: 4px;
+  border-radius: 2px;
+  background-color: ${props => props.theme === 'dark' ? '#676879' : '#c3c6d4'};
+  pointer-events: none;
+`;
+
 const Bar = styled.div<{
   color: string;
   progress: number;
   theme: 'light' | 'dark';
   isDragging?: boolean;
+  isCritical?: boolean;
+  isSelected?: boolean;
 }>`
   width: 100%;
   height: 100%;
   background-color: ${props => props.color};
   border-radius: 4px;
+  outline: ${props => props.isCritical ? '2px solid #e2445c' : 'none'};
+  outline-offset: 1px;
   position: relative;
   overflow: hidden;
   opacity: ${props => props.isDragging ? 0.7 : 1};
   transition: opacity 0.2s ease;
-  box-shadow: 0 1px 3px rgba(0, 0, 0, 0.2);
+  box-shadow: ${props => props.isSelected ? '0 0 0 2px #0073ea' : '0 1px 3px rgba(0, 0, 0, 0.2)'};
 
   &:hover {
     opacity: 0.8;
@@ -56,6 +84,33 @@ const Bar = styled.div<{
   }
 `;
 
+// A square rotated 45° whose diagonal spans MILESTONE_SIZE
+const MilestoneDiamond = styled.div<{ color: string; isCritical?: boolean; isDragging?: boolean; isSelected?: boolean }>`
+  position: absolute;
+  top: 50%;
+  left: 50%;
+  width: ${Math.round(MILESTONE_SIZE / Math.SQRT2)}px;
+  height: ${Math.round(MILESTONE_SIZE / Math.SQRT2)}px;
+  background-color: ${props => props.color};
+  transform: translate(-50%, -50%) rotate(45deg);
+  outline: ${props => props.isCritical ? '2px solid #e2445c' : 'none'};
+  outline-offset: 1px;
+  opacity: ${props => props.isDragging ? 0.7 : 1};
+  box-shadow: ${props => props.isSelected ? '0 0 0 2px #0073ea' : '0 1px 3px rgba(0, 0, 0, 0.2)'};
+`;
+
+const MilestoneLabel = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  top: 50%;
+  left: calc(100% + 6px);
+  transform: translateY(-50%);
+  font-size: 11px;
+  font-weight: 500;
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  white-space: nowrap;
+  pointer-events: none;
+`;
+
 const TaskLabel = styled.div<{ theme: 'light' | 'dark' }>`
   position: absolute;
   top: 50%;
@@ -88,6 +143,27 @@ const ResizeHandle = styled.div<{ position: 'left' | 'right' }>`
   }
 `;
 
+// Shown on hover past the bar's end; dragging it onto another bar links them
+const LinkHandle = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  top: 50%;
+  right: -14px;
+  width: 10px;
+  height: 10px;
+  margin-top: -5px;
+  box-sizing: border-box;
+  border: 2px solid #579bfc;
+  border-radius: 50%;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  cursor: crosshair;
+  opacity: 0;
+  transition: opacity 0.2s ease;
+
+  ${BarContainer}:hover & {
+    opacity: 1;
+  }
+`;
+
 const Tooltip = styled.div<{ theme: 'light' | 'dark' }>`
   position: absolute;
   top: -60px;
@@ -119,93 +195,193 @@ const GanttBar: React.FC<GanttBarProps> = ({
   startDate,
   dayWidth,
   theme,
+  schedule,
+  baseline,
+  isSelected,
+  dragOffsetDays,
   onClick,
-  onUpdate
+  onUpdate,
+  onGroupDrag,
+  onLinkStart
 }) => {
   const [showTooltip, setShowTooltip] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragType, setDragType] = useState<'move' | 'resize-left' | 'resize-right' | null>(null);
+  const [previewDates, setPreviewDates] = useState<{ startDate: Date; endDate: Date } | null>(null);
   const dragStartRef = useRef<{ x: number; startDate: Date; endDate: Date } | null>(null);
+  const didDragRef = useRef(false);
 
   if (!task.startDate || !task.endDate) return null;
 
-  const taskStart = moment(task.startDate);
-  const taskEnd = moment(task.endDate);
-  const ganttStart = moment(startDate);
+  const calendar = task.calendar || STANDARD_CALENDAR;
+  const shownDates = previewDates || (dragOffsetDays ? scheduler.shift(task, dragOffsetDays) : null);
+
+  const { left: leftOffset, width } = task.isMilestone
+    ? getMilestoneGeometry(shownDates?.endDate || task.endDate, startDate, dayWidth)
+    : getBarGeometry(
+      shownDates?.startDate || task.startDate,
+      shownDates?.endDate || task.endDate,
+      startDate,
+      dayWidth
+    );
 
-  const leftOffset = taskStart.diff(ganttStart, 'days') * dayWidth;
-  const duration = taskEnd.diff(taskStart, 'days') + 1;
-  const width = Math.max(dayWidth * duration, dayWidth * 0.5);
+  const baselineGeometry = baseline
+    ? getBarGeometry(baseline.startDate, baseline.endDate, startDate, dayWidth)
+    : null;
 
   const handleMouseDown = (e: React.MouseEvent, type: 'move' | 'resize-left' | 'resize-right') => {
+    const isGroupMove = type === 'move' && !!onGroupDrag;
+    if (!onUpdate && !isGroupMove) return;
+
     e.preventDefault();
     e.stopPropagation();
 
     setIsDragging(true);
     setDragType(type);
+    didDragRef.current = false;
     dragStartRef.current = {
       x: e.clientX,
       startDate: new Date(task.startDate!),
       endDate: new Date(task.endDate!)
     };
 
+    let latestDates: { startDate: Date; endDate: Date } | null = null;
+    let latestDeltaDays = 0;
+
     const handleMouseMove = (e: MouseEvent) => {
-      if (!dragStartRef.current || !onUpdate) return;
+      if (!dragStartRef.current) return;
 
       const deltaX = e.clientX - dragStartRef.current.x;
       const deltaDays = Math.round(deltaX / dayWidth);
 
-      let newStartDate = new Date(dragStartRef.current.startDate);
-      let newEndDate = new Date(dragStartRef.current.endDate);
-
-      switch (type) {
-        case 'move':
-          newStartDate = moment(dragStartRef.current.startDate).add(deltaDays, 'days').toDate();
-          newEndDate = moment(dragStartRef.current.endDate).add(deltaDays, 'days').toDate();
-          break;
-        case 'resize-left':
-          newStartDate = moment(dragStartRef.current.startDate).add(deltaDays, 'days').toDate();
-          if (moment(newStartDate).isAfter(newEndDate)) {
-            newStartDate = new Date(newEndDate);
-          }
-          break;
-        case 'resize-right':
-          newEndDate = moment(dragStartRef.current.endDate).add(deltaDays, 'days').toDate();
-          if (moment(newEndDate).isBefore(newStartDate)) {
-            newEndDate = new Date(newStartDate);
-          }
-          break;
+      if (isGroupMove) {
+        if (deltaDays !== 0) {
+          didDragRef.current = true;
+        }
+        if (deltaDays !== latestDeltaDays) {
+          latestDeltaDays = deltaDays;
+          onGroupDrag!(deltaDays, false);
+        }
+        return;
+      }
+      // Dropped dates snap onto working days in the direction of the drag
+      const direction = deltaDays < 0 ? -1 : 1;
+      const original = dragStartRef.current;
+
+      let newStartDate = new Date(original.startDate);
+      let newEndDate = new Date(original.endDate);
+
+      if (deltaDays !== 0) {
+        switch (type) {
+          case 'move':
+            // Keeps the number of working days while the bar moves
+            ({ startDate: newStartDate, endDate: newEndDate } = scheduler.shift(task, deltaDays));
+            break;
+          case 'resize-left':
+            newStartDate = workCalendar.snapToWorkingDay(
+              calendar, moment(original.startDate).add(deltaDays, 'days'), direction
+            );
+            if (moment(newStartDate).isAfter(newEndDate)) {
+              newStartDate = new Date(newEndDate);
+            }
+            break;
+          case 'resize-right':
+            newEndDate = workCalendar.snapToWorkingDay(
+              calendar, moment(original.endDate).add(deltaDays, 'days'), direction
+            );
+            if (moment(newEndDate).isBefore(newStartDate)) {
+              newEndDate = new Date(newStartDate);
+            }
+            break;
+        }
+      }
+
+      if (deltaDays !== 0) {
+        didDragRef.current = true;
       }
 
-      onUpdate(task.id, newStartDate, newEndDate);
+      latestDates = { startDate: newStartDate, endDate: newEndDate };
+      setPreviewDates(latestDates);
     };
 
     const handleMouseUp = () => {
+      const original = dragStartRef.current;
+
       setIsDragging(false);
       setDragType(null);
+      setPreviewDates(null);
       dragStartRef.current = null;
       document.removeEventListener('mousemove', handleMouseMove);
       document.removeEventListener('mouseup', handleMouseUp);
+
+      if (isGroupMove) {
+        onGroupDrag!(latestDeltaDays, true);
+        return;
+      }
+
+      // Only write back once the drag is released, and only if the dates changed
+      if (original && latestDates && (
+        !moment(latestDates.startDate).isSame(original.startDate, 'day') ||
+        !moment(latestDates.endDate).isSame(original.endDate, 'day')
+      )) {
+        onUpdate!(task.id, latestDates.startDate, latestDates.endDate);
+      }
     };
 
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
   };
 
+  const handleClick = (e: React.MouseEvent) => {
+    // A drag ends with a click on the bar; don't treat it as a selection
+    if (didDragRef.current) {
+      didDragRef.current = false;
+      return;
+    }
+    onClick?.(e);
+  };
+
   const formatDateRange = () => {
+    if (task.isMilestone) {
+      return `Milestone: ${moment(task.endDate).format('MMM DD, YYYY')}`;
+    }
+
     const start = moment(task.startDate).format('MMM DD');
     const end = moment(task.endDate).format('MMM DD');
-    const duration = moment(task.endDate).diff(moment(task.startDate), 'days') + 1;
-    return `${start} - ${end} (${duration} day${duration !== 1 ? 's' : ''})`;
+    const duration = workCalendar.countWorkingDays(calendar, task.startDate, task.endDate);
+    return `${start} - ${end} (${duration} working day${duration !== 1 ? 's' : ''})`;
   };
 
+  const formatVariance = (days: number) =>
+    `${days > 0 ? '+' : ''}${days} day${Math.abs(days) !== 1 ? 's' : ''}`;
+
   const getTooltipContent = () => {
     let content = `${task.name}\n${formatDateRange()}`;
 
-    if (task.progress > 0) {
+    if (task.progress && task.progress > 0) {
       content += `\nProgress: ${task.progress}%`;
     }
 
+    if (task.assignees && task.assignees.length > 0) {
+      content += `\nAssigned: ${task.assignees.map(assignee => assignee.name).join(', ')}`;
+    }
+
+    if (schedule) {
+      content += schedule.isCritical
+        ? '\nOn critical path (no slack)'
+        : `\nSlack: ${schedule.totalFloat} day${schedule.totalFloat !== 1 ? 's' : ''}`;
+    }
+
+    if (baseline) {
+      const variance = baselineStore.getVariance(task, baseline);
+      content += `\nBaseline: ${moment(baseline.startDate).format('MMM DD')} - ${moment(baseline.endDate).format('MMM DD')}`;
+      if (variance) {
+        content += variance.startDays === 0 && variance.endDays === 0
+          ? '\nOn baseline'
+          : `\nVariance: start ${formatVariance(variance.startDays)}, finish ${formatVariance(variance.endDays)}`;
+      }
+    }
+
     if (task.mirrorData && Object.keys(task.mirrorData).length > 0) {
       content += '\n\nMirror Data:';
       Object.values(task.mirrorData).forEach(data => {
@@ -217,46 +393,77 @@ const GanttBar: React.FC<GanttBarProps> = ({
   };
 
   return (
-    <BarContainer
-      left={leftOffset}
-      width={width}
-      onMouseEnter={() => setShowTooltip(true)}
-      onMouseLeave={() => setShowTooltip(false)}
-      onClick={onClick}
-    >
-      <Bar
-        color={task.color || '#037f4c'}
-        progress={task.progress || 0}
-        theme={theme}
-        isDragging={isDragging}
-        onMouseDown={(e) => handleMouseDown(e, 'move')}
+    <>
+      {baselineGeometry && (
+        <BaselineBar
+          theme={theme}
+          style={{ left: baselineGeometry.left, width: baselineGeometry.width }}
+        />
+      )}
+      <BarContainer
+        data-task-id={task.id}
+        style={{ left: leftOffset, width }}
+        onMouseEnter={() => setShowTooltip(true)}
+        onMouseLeave={() => setShowTooltip(false)}
+        onClick={handleClick}
       >
-        {onUpdate && (
+        {task.isMilestone ? (
           <>
-            <ResizeHandle
-              position="left"
-              onMouseDown={(e) => handleMouseDown(e, 'resize-left')}
-            />
-            <ResizeHandle
-              position="right"
-              onMouseDown={(e) => handleMouseDown(e, 'resize-right')}
+            <MilestoneDiamond
+              color={task.color || '#037f4c'}
+              isCritical={schedule?.isCritical}
+              isDragging={isDragging}
+              isSelected={isSelected}
+              onMouseDown={(e) => handleMouseDown(e, 'move')}
             />
+            <MilestoneLabel theme={theme}>{task.name}</MilestoneLabel>
           </>
+        ) : (
+          <Bar
+            color={task.color || '#037f4c'}
+            progress={task.progress || 0}
+            theme={theme}
+            isDragging={isDragging}
+            isCritical={schedule?.isCritical}
+            isSelected={isSelected}
+            onMouseDown={(e) => handleMouseDown(e, 'move')}
+          >
+            {onUpdate && (
+              <>
+                <ResizeHandle
+                  position="left"
+                  onMouseDown={(e) => handleMouseDown(e, 'resize-left')}
+                />
+                <ResizeHandle
+                  position="right"
+                  onMouseDown={(e) => handleMouseDown(e, 'resize-right')}
+                />
+              </>
+            )}
+            {width > 60 && (
+              <TaskLabel theme={theme}>
+                {task.name}
+              </TaskLabel>
+            )}
+          </Bar>
         )}
-        {width > 60 && (
-          <TaskLabel theme={theme}>
-            {task.name}
-          </TaskLabel>
+        {onLinkStart && !isDragging && (
+          <LinkHandle
+            theme={theme}
+            title="Drag to another bar to add a dependency"
+            onMouseDown={(e) => onLinkStart(task, e)}
+            onClick={(e) => e.stopPropagation()}
+          />
         )}
-      </Bar>
-      {showTooltip && !isDragging && (
-        <Tooltip theme={theme}>
-          {getTooltipContent().split('\n').map((line, index) => (
-            <div key={index}>{line}</div>
-          ))}
-        </Tooltip>
-      )}
-    </BarContainer>
+        {showTooltip && !isDragging && (
+          <Tooltip theme={theme}>
+            {getTooltipContent().split('\n').map((line, index) => (
+              <div key={index}>{line}</div>
+            ))}
+          </Tooltip>
+        )}
+      </BarContainer>
+    </>
   );
 };
 
@@ -1,15 +1,54 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import styled from 'styled-components';
-import { GanttTask } from '../types';
+import moment from 'moment';
+import { GanttTask, MondayUser, TaskBaseline, TaskDateChange, WorkCalendar, ZoomLevel } from '../types';
+import criticalPath from '../services/criticalPath';
+import baselineStore from '../services/baselineStore';
+import scheduler from '../services/scheduler';
 import GanttBar from './GanttBar';
 import GanttHeader from './GanttHeader';
-import moment from 'moment';
+import DependencyArrows from './DependencyArrows';
+import SelectionToolbar from './SelectionToolbar';
+import {
+  BAR_HEIGHT,
+  BAR_TOP,
+  Point,
+  ROW_HEIGHT,
+  TASK_LIST_WIDTH,
+  getBarGeometry,
+  getTaskGeometry
+} from '../utils/layout';
+import { GroupSummary, buildChartLines, buildChartRows, splitMilestones } from '../utils/chartLayout';
+import { DEFAULT_ZOOM_LEVEL, getChartRange, getTimelineWidth, xToDate } from '../utils/timeScale';
+import { EMPTY_SELECTION, TaskSelection, selectTask } from '../utils/taskSelection';
 
 interface GanttChartProps {
   tasks: GanttTask[];
   theme: 'light' | 'dark';
+  zoomLevel?: ZoomLevel;
+  showCriticalPath?: boolean;
+  baseline?: TaskBaseline;
+  showMilestoneLane?: boolean;
+  // Shades the header and drives critical-path math
+  calendar?: WorkCalendar;
+  // Names of groups whose rows are hidden under their header
+  collapsedGroups?: string[];
+  onCollapsedGroupsChange?: (groups: string[]) => void;
+  // Double-clicking empty timeline space asks for a new item on that day,
+  // next to `anchor` (the row's task or the group's first task)
+  onCreateTask?: (anchor: GanttTask, date: Date) => void;
+  // Enable dragging links between bars and removing them from their arrows
+  onCreateDependency?: (predecessorId: string, successorId: string) => void;
+  onRemoveDependency?: (predecessorId: string, successorId: string) => void;
   onTaskClick?: (task: GanttTask) => void;
   onTaskUpdate?: (taskId: string, startDate: Date, endDate: Date) => void;
+  // Moves several tasks at once: dragging a selected bar or shifting the selection
+  onTasksMove?: (changes: TaskDateChange[]) => void;
+  // Bulk actions offered for the selected tasks
+  statusLabels?: string[];
+  onBulkSetStatus?: (tasks: GanttTask[], label: string) => void;
+  onBulkAssign?: (tasks: GanttTask[], user: MondayUser) => void;
+  onBulkDelete?: (tasks: GanttTask[]) => void;
 }
 
 const GanttContainer = styled.div<{ theme: 'light' | 'dark' }>`
@@ -21,35 +60,172 @@ const GanttContainer = styled.div<{ theme: 'light' | 'dark' }>`
   font-family: "Figtree", -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", sans-serif;
 `;
 
-const GanttContent = styled.div`
+// Rows and timeline pixels rendered beyond the viewport to avoid blank edges while scrolling
+const ROW_OVERSCAN = 10;
+const TIMELINE_OVERSCAN = 400;
+
+const GanttContent = styled.div<{ width: number }>`
   display: flex;
   flex-direction: column;
-  min-width: 1200px;
+  min-width: ${props => props.width}px;
 `;
 
 const TaskList = styled.div`
-  display: flex;
-  flex-direction: column;
+  position: relative;
+`;
+
+const LinkPreview = styled.svg`
+  position: absolute;
+  top: 0;
+  left: ${TASK_LIST_WIDTH}px;
+  width: 1px;
+  height: 1px;
+  overflow: visible;
+  pointer-events: none;
+  z-index: 3;
+`;
+
+// Rectangle dragged across empty timeline space to select bars
+const Marquee = styled.div`
+  position: absolute;
+  box-sizing: border-box;
+  border: 1px solid #0073ea;
+  background-color: rgba(0, 115, 234, 0.1);
+  pointer-events: none;
+  z-index: 3;
 `;
 
-const TaskRow = styled.div<{ theme: 'light' | 'dark'; isSubtask?: boolean }>`
+const getRowBackground = (theme: 'light' | 'dark', isSelected?: boolean) => {
+  if (isSelected) return theme === 'dark' ? '#1f3a5f' : '#e5f0ff';
+  return theme === 'dark' ? '#292f3a' : '#ffffff';
+};
+
+const TaskRow = styled.div<{ theme: 'light' | 'dark'; isSelected?: boolean }>`
+  position: absolute;
+  left: 0;
+  right: 0;
   display: flex;
-  min-height: 40px;
+  box-sizing: border-box;
+  height: ${ROW_HEIGHT}px;
   border-bottom: 1px solid ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
   align-items: center;
-  padding-left: ${props => props.isSubtask ? '32px' : '16px'};
+  background-color: ${props => props.isSelected ? getRowBackground(props.theme, true) : 'transparent'};
 
   &:hover {
     background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
   }
 `;
 
-const TaskInfo = styled.div`
-  width: 300px;
-  padding: 8px;
+const MilestoneLane = styled(TaskRow)`
+  position: relative;
+  flex-shrink: 0;
+  background-color: ${props => props.theme === 'dark' ? '#30363f' : '#fafbfc'};
+`;
+
+const GroupRow = styled(TaskRow)`
+  background-color: ${props => props.theme === 'dark' ? '#30363f' : '#f5f6f8'};
+`;
+
+const GroupInfo = styled.div<{ theme: 'light' | 'dark' }>`
+  position: sticky;
+  left: 0;
+  z-index: 2;
+  width: ${TASK_LIST_WIDTH}px;
+  height: 100%;
+  box-sizing: border-box;
+  padding: 0 8px;
+  flex-shrink: 0;
+  display: flex;
+  align-items: center;
+  gap: 6px;
+  overflow: hidden;
+  font-weight: 600;
+  font-size: 14px;
+  background-color: inherit;
+  cursor: pointer;
+`;
+
+const Caret = styled.span<{ collapsed: boolean }>`
+  display: inline-block;
+  width: 12px;
+  font-size: 10px;
+  transform: rotate(${props => props.collapsed ? '-90deg' : '0deg'});
+  transition: transform 0.15s ease;
+`;
+
+const GroupName = styled.span`
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const GroupCount = styled.span`
+  font-weight: 400;
+  font-size: 12px;
+  color: #666;
+  flex-shrink: 0;
+`;
+
+// Spans the group from its earliest start to its latest end
+const SummaryBar = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  top: ${BAR_TOP + BAR_HEIGHT / 2 - 5}px;
+  height: 10px;
+  border-radius: 2px;
+  overflow: hidden;
+  background-color: ${props => props.theme === 'dark' ? '#676879' : '#9699a6'};
+`;
+
+const SummaryProgress = styled.div`
+  height: 100%;
+  background-color: #323338;
+  opacity: 0.6;
+`;
+
+const HeaderAction = styled.button<{ theme: 'light' | 'dark' }>`
+  padding: 2px 6px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background: transparent;
+  color: inherit;
+  font-size: 11px;
+  font-weight: 400;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  }
+`;
+
+// Each tree level indents the row by one caret width
+const TaskInfo = styled.div<{ theme: 'light' | 'dark'; depth?: number; isSelected?: boolean }>`
+  position: sticky;
+  left: 0;
+  z-index: 2;
+  width: ${TASK_LIST_WIDTH}px;
+  height: 100%;
+  box-sizing: border-box;
+  padding: 0 8px 0 ${props => 16 + (props.depth || 0) * 16}px;
   flex-shrink: 0;
   display: flex;
   align-items: center;
+  overflow: hidden;
+  background-color: ${props => getRowBackground(props.theme, props.isSelected)};
+
+  ${TaskRow}:hover & {
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+`;
+
+const TreeToggle = styled.button<{ theme: 'light' | 'dark' }>`
+  flex-shrink: 0;
+  width: 16px;
+  margin: 0 4px 0 -20px;
+  padding: 0;
+  border: none;
+  background: none;
+  color: ${props => props.theme === 'dark' ? '#c5c7d0' : '#676879'};
+  cursor: pointer;
 `;
 
 const TaskName = styled.div<{ isSubtask?: boolean }>`
@@ -65,12 +241,15 @@ const TaskMeta = styled.div`
   font-size: 12px;
   color: #666;
   margin-top: 2px;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
 `;
 
 const GanttTimeline = styled.div`
   flex: 1;
   position: relative;
-  min-height: 40px;
+  height: 100%;
 `;
 
 const EmptyState = styled.div<{ theme: 'light' | 'dark' }>`
@@ -96,75 +275,432 @@ const EmptyStateSubtext = styled.div`
 const GanttChart: React.FC<GanttChartProps> = ({
   tasks,
   theme,
+  zoomLevel = DEFAULT_ZOOM_LEVEL,
+  showCriticalPath,
+  baseline,
+  showMilestoneLane,
+  calendar,
+  collapsedGroups,
+  onCollapsedGroupsChange,
+  onCreateTask,
+  onCreateDependency,
+  onRemoveDependency,
   onTaskClick,
-  onTaskUpdate
+  onTaskUpdate,
+  onTasksMove,
+  statusLabels,
+  onBulkSetStatus,
+  onBulkAssign,
+  onBulkDelete
 }) => {
-  const { validTasks, dateRange, dayWidth } = useMemo(() => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollFrameRef = useRef<number | null>(null);
+  const taskListRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  // Parents whose children are hidden
+  const [collapsedTasks, setCollapsedTasks] = useState<Set<string>>(new Set());
+  // Line from a connector dot to the pointer while a link is being dragged
+  const [linkDrag, setLinkDrag] = useState<{ from: Point; to: Point } | null>(null);
+  // Shared by the task list and the bars
+  const [selection, setSelection] = useState<TaskSelection>(EMPTY_SELECTION);
+  const [marquee, setMarquee] = useState<{ from: Point; to: Point } | null>(null);
+  // Days the selected bars are being dragged by
+  const [groupDragDays, setGroupDragDays] = useState(0);
+  const [viewport, setViewport] = useState({
+    width: window.innerWidth,
+    height: window.innerHeight
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      if (scrollFrameRef.current !== null) {
+        cancelAnimationFrame(scrollFrameRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    if (selection.ids.size === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setSelection(EMPTY_SELECTION);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [selection.ids.size]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const target = e.currentTarget;
+    if (scrollFrameRef.current !== null) return;
+
+    // Batch scroll updates to one render per frame
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      setScroll({ top: target.scrollTop, left: target.scrollLeft });
+    });
+  };
+
+  const { validTasks, range } = useMemo(() => {
     const validTasks = tasks.filter(task => task.startDate && task.endDate);
 
     if (validTasks.length === 0) {
-      return { validTasks: [], dateRange: null, dayWidth: 30 };
+      return { validTasks: [], range: null };
     }
 
-    const dates = validTasks.reduce((acc, task) => {
-      if (task.startDate) acc.push(task.startDate);
-      if (task.endDate) acc.push(task.endDate);
-      return acc;
-    }, [] as Date[]);
-
-    const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-    const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    validTasks.forEach(task => {
+      minTime = Math.min(minTime, task.startDate!.getTime(), task.endDate!.getTime());
+      maxTime = Math.max(maxTime, task.startDate!.getTime(), task.endDate!.getTime());
 
-    // Add padding
-    const paddedMinDate = moment(minDate).subtract(7, 'days').toDate();
-    const paddedMaxDate = moment(maxDate).add(7, 'days').toDate();
+      // Keep baseline bars that sit outside the live dates on screen
+      const baselineDates = baseline && baselineStore.getTaskDates(baseline, task.id);
+      if (baselineDates) {
+        minTime = Math.min(minTime, baselineDates.startDate.getTime());
+        maxTime = Math.max(maxTime, baselineDates.endDate.getTime());
+      }
+    });
 
-    const totalDays = moment(paddedMaxDate).diff(moment(paddedMinDate), 'days');
-    const availableWidth = Math.max(800, window.innerWidth - 350);
-    const dayWidth = Math.max(20, availableWidth / totalDays);
+    const availableWidth = Math.max(800, viewport.width - TASK_LIST_WIDTH);
 
     return {
       validTasks,
-      dateRange: { start: paddedMinDate, end: paddedMaxDate },
-      dayWidth
+      range: getChartRange(new Date(minTime), new Date(maxTime), zoomLevel, availableWidth)
     };
-  }, [tasks]);
+  }, [tasks, zoomLevel, viewport.width, baseline]);
 
-  const groupedTasks = useMemo(() => {
-    const groups: { [key: string]: GanttTask[] } = {};
-    const orphans: GanttTask[] = [];
+  const { laneMilestones, rows } = useMemo(() => {
+    // Subitems without dates are listed under their parent, without a bar
+    const validIds = new Set(validTasks.map(task => task.id));
+    const rowTasks = tasks.filter(task => validIds.has(task.id) || (!!task.parentId && validIds.has(task.parentId)));
 
-    validTasks.forEach(task => {
-      const groupKey = task.group || 'No Group';
+    if (!showMilestoneLane) {
+      return { laneMilestones: [], rows: buildChartRows(rowTasks) };
+    }
 
-      if (!groups[groupKey]) {
-        groups[groupKey] = [];
-      }
+    const { milestones, tasks: laneless } = splitMilestones(rowTasks);
+    return { laneMilestones: milestones, rows: buildChartRows(laneless) };
+  }, [tasks, validTasks, showMilestoneLane]);
+
+  const collapsedSet = useMemo(() => new Set(collapsedGroups || []), [collapsedGroups]);
+  const lines = useMemo(
+    () => buildChartLines(rows, collapsedSet, collapsedTasks),
+    [rows, collapsedSet, collapsedTasks]
+  );
+
+  // Row order as rendered, used to position dependency arrows
+  const orderedTasks = useMemo(
+    () => lines.map(line => line.kind === 'task' ? line.task : null),
+    [lines]
+  );
+
+  // Selectable tasks in the order shift-click ranges run
+  const selectableIds = useMemo(() => [
+    ...laneMilestones.map(task => task.id),
+    ...lines.flatMap(line => line.kind === 'task' ? [line.task.id] : [])
+  ], [laneMilestones, lines]);
+
+  const selectedTasks = useMemo(
+    () => tasks.filter(task => selection.ids.has(task.id)),
+    [tasks, selection]
+  );
+
+  const schedule = useMemo(
+    () => showCriticalPath ? criticalPath.analyze(validTasks, calendar) : null,
+    [validTasks, showCriticalPath, calendar]
+  );
+
+  const criticalTaskIds = useMemo(() => {
+    if (!schedule) return undefined;
+    return new Set(Object.keys(schedule).filter(taskId => schedule[taskId].isCritical));
+  }, [schedule]);
+
+  const timelineWidth = range ? getTimelineWidth(range) : 0;
+
+  const firstVisibleRow = Math.max(0, Math.floor(scroll.top / ROW_HEIGHT) - ROW_OVERSCAN);
+  const lastVisibleRow = Math.min(
+    lines.length - 1,
+    Math.ceil((scroll.top + viewport.height) / ROW_HEIGHT) + ROW_OVERSCAN
+  );
+  const visibleLines = lines.slice(firstVisibleRow, lastVisibleRow + 1);
+
+  // Visible slice of the timeline, in timeline coordinates
+  const visibleTimeline = {
+    left: scroll.left - TIMELINE_OVERSCAN,
+    right: scroll.left + viewport.width - TASK_LIST_WIDTH + TIMELINE_OVERSCAN
+  };
+
+  const isGeometryVisible = ({ left, width }: { left: number; width: number }) =>
+    left + width >= visibleTimeline.left && left <= visibleTimeline.right;
+
+  const getBaselineDates = (task: GanttTask) =>
+    baseline ? baselineStore.getTaskDates(baseline, task.id) || undefined : undefined;
+
+  const isBarVisible = (task: GanttTask) => {
+    if (!range || !task.startDate || !task.endDate) return false;
+    const baselineDates = getBaselineDates(task);
+    return isGeometryVisible(getTaskGeometry(task, range.start, range.dayWidth)) || (!!baselineDates &&
+      isGeometryVisible(getBarGeometry(baselineDates.startDate, baselineDates.endDate, range.start, range.dayWidth)));
+  };
 
-      if (task.parentId) {
-        // This is a subtask, add it to orphans for now
-        orphans.push(task);
+  const toggleGroup = (groupName: string) => {
+    onCollapsedGroupsChange?.(collapsedSet.has(groupName)
+      ? (collapsedGroups || []).filter(name => name !== groupName)
+      : [...(collapsedGroups || []), groupName]);
+  };
+
+  const toggleTask = (taskId: string) => {
+    setCollapsedTasks(previous => {
+      const next = new Set(previous);
+      if (next.has(taskId)) {
+        next.delete(taskId);
       } else {
-        groups[groupKey].push(task);
+        next.add(taskId);
       }
+      return next;
     });
+  };
+
+  // Bars and summary bars are children of the timeline, so only empty space matches
+  const handleTimelineDoubleClick = (e: React.MouseEvent<HTMLDivElement>, anchor?: GanttTask) => {
+    if (!range || !anchor || !onCreateTask || e.target !== e.currentTarget) return;
+
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    onCreateTask(anchor, xToDate(x, range.start, range.dayWidth));
+  };
+
+  // Pointer position in timeline coordinates, with y measured from the first row
+  const toListPoint = (list: HTMLDivElement, event: { clientX: number; clientY: number }): Point => {
+    const rect = list.getBoundingClientRect();
+    return { x: event.clientX - rect.left - TASK_LIST_WIDTH, y: event.clientY - rect.top };
+  };
+
+  // Releasing the drag over another bar links it as the successor
+  const handleLinkStart = (task: GanttTask, e: React.MouseEvent) => {
+    const list = taskListRef.current;
+    if (!list || !onCreateDependency) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    const toPoint = (event: { clientX: number; clientY: number }) => toListPoint(list, event);
+
+    const from = toPoint(e);
+    setLinkDrag({ from, to: from });
+
+    const handleMouseMove = (event: MouseEvent) => setLinkDrag({ from, to: toPoint(event) });
+
+    const handleMouseUp = (event: MouseEvent) => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setLinkDrag(null);
+
+      const targetId = (event.target as Element | null)?.closest?.('[data-task-id]')?.getAttribute('data-task-id');
+      if (targetId && targetId !== task.id) {
+        onCreateDependency(task.id, targetId);
+      }
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
 
-    // Add subtasks after their parents
-    orphans.forEach(subtask => {
-      Object.values(groups).forEach(groupTasks => {
-        const parentIndex = groupTasks.findIndex(task => task.id === subtask.parentId);
-        if (parentIndex !== -1) {
-          groupTasks.splice(parentIndex + 1, 0, subtask);
-        }
-      });
+  const handleSelect = (task: GanttTask, e: React.MouseEvent) => {
+    setSelection(previous => selectTask(previous, selectableIds, task.id, e));
+  };
+
+  // Modified clicks only change the selection; a plain click also opens the task
+  const handleBarClick = (task: GanttTask, e: React.MouseEvent) => {
+    handleSelect(task, e);
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      onTaskClick?.(task);
+    }
+  };
+
+  const isMovable = (task: GanttTask) =>
+    !!onTasksMove && !task.datesFromChildren && !!task.startDate && !!task.endDate;
+
+  const moveSelection = (days: number) => {
+    const movable = selectedTasks.filter(isMovable);
+    if (days === 0 || movable.length === 0) return;
+
+    onTasksMove!(movable.map(task => ({ task, ...scheduler.shift(task, days) })));
+  };
+
+  const handleGroupDrag = (deltaDays: number, isDone: boolean) => {
+    setGroupDragDays(isDone ? 0 : deltaDays);
+    if (isDone) {
+      moveSelection(deltaDays);
+    }
+  };
+
+  // Selected bars move together when one of them is dragged
+  const getBarSelectionProps = (task: GanttTask) => {
+    const isSelected = selection.ids.has(task.id);
+    const movesWithSelection = isSelected && selection.ids.size > 1 && isMovable(task);
+
+    return {
+      isSelected,
+      dragOffsetDays: movesWithSelection ? groupDragDays : undefined,
+      onGroupDrag: movesWithSelection ? handleGroupDrag : undefined
+    };
+  };
+
+  // Bars a marquee touches, in timeline coordinates
+  const getTaskIdsInRect = (left: number, top: number, right: number, bottom: number): string[] => {
+    if (!range) return [];
+
+    return lines.flatMap((line, index) => {
+      if (line.kind !== 'task' || !line.task.startDate || !line.task.endDate) return [];
+
+      const barTop = index * ROW_HEIGHT + BAR_TOP;
+      if (barTop > bottom || barTop + BAR_HEIGHT < top) return [];
+
+      const geometry = getTaskGeometry(line.task, range.start, range.dayWidth);
+      return geometry.left <= right && geometry.left + geometry.width >= left ? [line.task.id] : [];
     });
+  };
+
+  // Dragging across empty timeline space selects the bars the rectangle
+  // touches (added to the selection with shift or ctrl); a plain click clears it
+  const handleMarqueeStart = (e: React.MouseEvent<HTMLDivElement>) => {
+    const list = taskListRef.current;
+    if (!list || e.button !== 0 || e.target !== e.currentTarget) return;
+
+    e.preventDefault();
+
+    const from = toListPoint(list, e);
+    const isAdditive = e.shiftKey || e.ctrlKey || e.metaKey;
+    let to = from;
+
+    const handleMouseMove = (event: MouseEvent) => {
+      to = toListPoint(list, event);
+      setMarquee({ from, to });
+    };
+
+    const handleMouseUp = () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+      setMarquee(null);
+
+      const isClick = Math.abs(to.x - from.x) < 4 && Math.abs(to.y - from.y) < 4;
+      if (isClick) {
+        if (!isAdditive) setSelection(EMPTY_SELECTION);
+        return;
+      }
+
+      const hits = getTaskIdsInRect(
+        Math.min(from.x, to.x),
+        Math.min(from.y, to.y),
+        Math.max(from.x, to.x),
+        Math.max(from.y, to.y)
+      );
+      setSelection(previous => ({
+        ids: new Set([...(isAdditive ? Array.from(previous.ids) : []), ...hits]),
+        anchorId: hits[0] || previous.anchorId
+      }));
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
+
+  const groupNames = lines.flatMap(line => line.kind === 'group' ? [line.summary.groupName] : []);
 
-    return groups;
-  }, [validTasks]);
+  const renderGroupLine = (summary: GroupSummary, collapsed: boolean, top: number) => {
+    const geometry = range ? getBarGeometry(summary.startDate, summary.endDate, range.start, range.dayWidth) : null;
+
+    return (
+      <GroupRow key={`group:${summary.groupName}`} theme={theme} style={{ top }}>
+        <GroupInfo theme={theme} onClick={() => toggleGroup(summary.groupName)}>
+          <Caret collapsed={collapsed}>▼</Caret>
+          <GroupName>{summary.groupName}</GroupName>
+          <GroupCount>{summary.taskCount} task{summary.taskCount !== 1 ? 's' : ''}</GroupCount>
+        </GroupInfo>
+        <GanttTimeline
+          onMouseDown={handleMarqueeStart}
+          onDoubleClick={(e) => handleTimelineDoubleClick(e, rows.find(row => row.groupName === summary.groupName)?.task)}
+        >
+          {geometry && isGeometryVisible(geometry) && (
+            <SummaryBar
+              theme={theme}
+              style={{ left: geometry.left, width: geometry.width }}
+              title={`${summary.groupName}: ${moment(summary.startDate).format('MMM DD')} - ${moment(summary.endDate).format('MMM DD')}, ${Math.round(summary.progress)}% complete`}
+            >
+              <SummaryProgress style={{ width: `${summary.progress}%` }} />
+            </SummaryBar>
+          )}
+        </GanttTimeline>
+      </GroupRow>
+    );
+  };
+
+  const renderTaskLine = (key: string, task: GanttTask, groupName: string, depth: number, top: number) => (
+    <TaskRow key={key} theme={theme} isSelected={selection.ids.has(task.id)} style={{ top }}>
+      <TaskInfo
+        theme={theme}
+        depth={depth}
+        isSelected={selection.ids.has(task.id)}
+        onClick={(e) => handleSelect(task, e)}
+      >
+        {task.children && task.children.length > 0 && (
+          <TreeToggle
+            theme={theme}
+            title={collapsedTasks.has(task.id) ? 'Show subitems' : 'Hide subitems'}
+            onClick={(e) => {
+              e.stopPropagation();
+              toggleTask(task.id);
+            }}
+          >
+            <Caret collapsed={collapsedTasks.has(task.id)}>▼</Caret>
+          </TreeToggle>
+        )}
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <TaskName isSubtask={!!task.parentId}>
+            {task.name}
+          </TaskName>
+          <TaskMeta>
+            {task.boardName} • {groupName}
+            {task.mirrorData && Object.keys(task.mirrorData).length > 0 && (
+              <span> • Mirror data available</span>
+            )}
+          </TaskMeta>
+        </div>
+      </TaskInfo>
+      <GanttTimeline onMouseDown={handleMarqueeStart} onDoubleClick={(e) => handleTimelineDoubleClick(e, task)}>
+        {range && isBarVisible(task) && (
+          <GanttBar
+            task={task}
+            startDate={range.start}
+            dayWidth={range.dayWidth}
+            theme={theme}
+            schedule={schedule?.[task.id]}
+            baseline={getBaselineDates(task)}
+            {...getBarSelectionProps(task)}
+            onClick={(e) => handleBarClick(task, e)}
+            onUpdate={task.datesFromChildren ? undefined : onTaskUpdate}
+            onLinkStart={onCreateDependency && handleLinkStart}
+          />
+        )}
+      </GanttTimeline>
+    </TaskRow>
+  );
 
   if (validTasks.length === 0) {
     return (
-      <GanttContainer theme={theme}>
+      <GanttContainer theme={theme} ref={containerRef}>
         <EmptyState theme={theme}>
           <EmptyStateText>No timeline data found</EmptyStateText>
           <EmptyStateSubtext>
@@ -176,56 +712,108 @@ const GanttChart: React.FC<GanttChartProps> = ({
   }
 
   return (
-    <GanttContainer theme={theme}>
-      <GanttContent>
-        {dateRange && (
+    <GanttContainer theme={theme} ref={containerRef} onScroll={handleScroll}>
+      <GanttContent width={TASK_LIST_WIDTH + timelineWidth}>
+        {range && (
           <GanttHeader
-            startDate={dateRange.start}
-            endDate={dateRange.end}
-            dayWidth={dayWidth}
+            range={range}
+            zoomLevel={zoomLevel}
             theme={theme}
+            calendar={calendar}
+            visibleTimeline={visibleTimeline}
+            listActions={onCollapsedGroupsChange && (
+              <>
+                <HeaderAction theme={theme} onClick={() => onCollapsedGroupsChange([])}>
+                  Expand all
+                </HeaderAction>
+                <HeaderAction theme={theme} onClick={() => onCollapsedGroupsChange(groupNames)}>
+                  Collapse all
+                </HeaderAction>
+              </>
+            )}
           />
         )}
-        <TaskList>
-          {Object.entries(groupedTasks).map(([groupName, groupTasks]) => (
-            <React.Fragment key={groupName}>
-              {groupTasks.map(task => (
-                <TaskRow
+        {laneMilestones.length > 0 && (
+          <MilestoneLane theme={theme}>
+            <TaskInfo theme={theme}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <TaskName>Milestones</TaskName>
+                <TaskMeta>{laneMilestones.length} milestone{laneMilestones.length !== 1 ? 's' : ''}</TaskMeta>
+              </div>
+            </TaskInfo>
+            <GanttTimeline>
+              {range && laneMilestones.filter(isBarVisible).map(task => (
+                <GanttBar
                   key={task.id}
+                  task={task}
+                  startDate={range.start}
+                  dayWidth={range.dayWidth}
                   theme={theme}
-                  isSubtask={!!task.parentId}
-                >
-                  <TaskInfo>
-                    <div style={{ flex: 1 }}>
-                      <TaskName isSubtask={!!task.parentId}>
-                        {task.name}
-                      </TaskName>
-                      <TaskMeta>
-                        {task.boardName} • {groupName}
-                        {task.mirrorData && Object.keys(task.mirrorData).length > 0 && (
-                          <span> • Mirror data available</span>
-                        )}
-                      </TaskMeta>
-                    </div>
-                  </TaskInfo>
-                  <GanttTimeline>
-                    {dateRange && (
-                      <GanttBar
-                        task={task}
-                        startDate={dateRange.start}
-                        dayWidth={dayWidth}
-                        theme={theme}
-                        onClick={() => onTaskClick?.(task)}
-                        onUpdate={onTaskUpdate}
-                      />
-                    )}
-                  </GanttTimeline>
-                </TaskRow>
+                  schedule={schedule?.[task.id]}
+                  baseline={getBaselineDates(task)}
+                  {...getBarSelectionProps(task)}
+                  onClick={(e) => handleBarClick(task, e)}
+                  onUpdate={onTaskUpdate}
+                  onLinkStart={onCreateDependency && handleLinkStart}
+                />
               ))}
-            </React.Fragment>
-          ))}
+            </GanttTimeline>
+          </MilestoneLane>
+        )}
+        <TaskList ref={taskListRef} style={{ height: lines.length * ROW_HEIGHT }}>
+          {visibleLines.map((line, index) => line.kind === 'group'
+            ? renderGroupLine(line.summary, line.collapsed, (firstVisibleRow + index) * ROW_HEIGHT)
+            : renderTaskLine(line.key, line.task, line.groupName, line.depth, (firstVisibleRow + index) * ROW_HEIGHT))}
+          {range && (
+            <DependencyArrows
+              tasks={orderedTasks}
+              laneTasks={laneMilestones}
+              startDate={range.start}
+              dayWidth={range.dayWidth}
+              width={timelineWidth}
+              theme={theme}
+              criticalTaskIds={criticalTaskIds}
+              visibleRows={{ first: firstVisibleRow, last: lastVisibleRow }}
+              onRemoveDependency={onRemoveDependency}
+            />
+          )}
+          {linkDrag && (
+            <LinkPreview>
+              <line
+                x1={linkDrag.from.x}
+                y1={linkDrag.from.y}
+                x2={linkDrag.to.x}
+                y2={linkDrag.to.y}
+                stroke="#579bfc"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+            </LinkPreview>
+          )}
+          {marquee && (
+            <Marquee
+              style={{
+                left: TASK_LIST_WIDTH + Math.min(marquee.from.x, marquee.to.x),
+                top: Math.min(marquee.from.y, marquee.to.y),
+                width: Math.abs(marquee.to.x - marquee.from.x),
+                height: Math.abs(marquee.to.y - marquee.from.y)
+              }}
+            />
+          )}
         </TaskList>
       </GanttContent>
+      {selectedTasks.length > 0 && (
+        <SelectionToolbar
+          count={selectedTasks.length}
+          statusLabels={statusLabels}
+          onShift={onTasksMove && moveSelection}
+          onSetStatus={onBulkSetStatus && (label => onBulkSetStatus(selectedTasks, label))}
+          onAssign={onBulkAssign && (user => onBulkAssign(selectedTasks, user))}
+          onDelete={onBulkDelete && (() => onBulkDelete(selectedTasks))}
+          onClear={() => setSelection(EMPTY_SELECTION)}
+          theme={theme}
+        />
+      )}
     </GanttContainer>
   );
 };
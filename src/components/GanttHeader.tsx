@@ -1,12 +1,28 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import styled from 'styled-components';
 import moment from 'moment';
+import { WorkCalendar, ZoomLevel } from '../types';
+import workCalendar from '../services/workCalendar';
+import { TASK_LIST_WIDTH } from '../utils/layout';
+import {
+  ChartRange,
+  ZOOM_LEVELS,
+  buildHeaderCells,
+  getTimelineWidth
+} from '../utils/timeScale';
 
 interface GanttHeaderProps {
-  startDate: Date;
-  endDate: Date;
-  dayWidth: number;
+  range: ChartRange;
+  zoomLevel: ZoomLevel;
   theme: 'light' | 'dark';
+  // Heading above the row labels
+  listTitle?: string;
+  // Extra controls shown next to the heading
+  listActions?: React.ReactNode;
+  // Non-working days of this calendar are shaded; weekends when omitted
+  calendar?: WorkCalendar;
+  // Cells outside this horizontal window (timeline coordinates) are not mounted
+  visibleTimeline?: { left: number; right: number };
 }
 
 const HeaderContainer = styled.div<{ theme: 'light' | 'dark' }>`
@@ -18,8 +34,13 @@ const HeaderContainer = styled.div<{ theme: 'light' | 'dark' }>`
   z-index: 10;
 `;
 
-const TaskListHeader = styled.div`
-  width: 300px;
+const TaskListHeader = styled.div<{ theme: 'light' | 'dark' }>`
+  position: sticky;
+  left: 0;
+  z-index: 1;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  width: ${TASK_LIST_WIDTH}px;
+  box-sizing: border-box;
   flex-shrink: 0;
   padding: 12px 16px;
   font-weight: 600;
@@ -28,50 +49,54 @@ const TaskListHeader = styled.div`
   align-items: center;
 `;
 
-const TimelineHeader = styled.div`
-  flex: 1;
+const ListActions = styled.div`
+  margin-left: auto;
   display: flex;
-  flex-direction: column;
+  gap: 4px;
 `;
 
-const MonthRow = styled.div`
+const TimelineHeader = styled.div<{ width: number }>`
+  width: ${props => props.width}px;
+  flex-shrink: 0;
   display: flex;
-  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
-  background-color: ${props => props.theme === 'dark' ? '#2a3038' : '#ffffff'};
-  height: 32px;
+  flex-direction: column;
 `;
 
-const DayRow = styled.div`
-  display: flex;
+const TierRow = styled.div<{ theme: 'light' | 'dark'; isPrimary: boolean }>`
+  position: relative;
   height: 32px;
+  border-bottom: ${props => props.isPrimary
+    ? `1px solid ${props.theme === 'dark' ? '#555' : '#ddd'}`
+    : 'none'};
+  background-color: ${props => props.isPrimary
+    ? (props.theme === 'dark' ? '#2a3038' : '#ffffff')
+    : 'transparent'};
 `;
 
-const MonthCell = styled.div<{ width: number; theme: 'light' | 'dark' }>`
-  width: ${props => props.width}px;
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  font-weight: 600;
-  font-size: 13px;
-  border-right: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
-  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
-`;
-
-const DayCell = styled.div<{ width: number; theme: 'light' | 'dark'; isWeekend?: boolean }>`
-  width: ${props => props.width}px;
+const HeaderCell = styled.div<{ theme: 'light' | 'dark'; isPrimary: boolean; isNonWorkingDay?: boolean }>`
+  position: absolute;
+  top: 0;
+  height: 100%;
+  box-sizing: border-box;
   display: flex;
   align-items: center;
   justify-content: center;
-  font-size: 12px;
-  border-right: 1px solid ${props => props.theme === 'dark' ? '#444' : '#eee'};
+  overflow: hidden;
+  white-space: nowrap;
+  font-weight: ${props => props.isPrimary ? 600 : 400};
+  font-size: ${props => props.isPrimary ? '13px' : '12px'};
+  border-right: 1px solid ${props => {
+    if (props.isPrimary) return props.theme === 'dark' ? '#555' : '#ddd';
+    return props.theme === 'dark' ? '#444' : '#eee';
+  }};
   background-color: ${props => {
-    if (props.isWeekend) {
+    if (props.isNonWorkingDay) {
       return props.theme === 'dark' ? '#3a4149' : '#f8f9fa';
     }
     return 'transparent';
   }};
   color: ${props => {
-    if (props.isWeekend) {
+    if (props.isNonWorkingDay) {
       return props.theme === 'dark' ? '#999' : '#666';
     }
     return props.theme === 'dark' ? '#ffffff' : '#333333';
@@ -79,68 +104,60 @@ const DayCell = styled.div<{ width: number; theme: 'light' | 'dark'; isWeekend?:
 `;
 
 const GanttHeader: React.FC<GanttHeaderProps> = ({
-  startDate,
-  endDate,
-  dayWidth,
-  theme
+  range,
+  zoomLevel,
+  theme,
+  listTitle = 'Tasks',
+  listActions,
+  calendar,
+  visibleTimeline
 }) => {
-  const days = [];
-  const months: { [key: string]: number } = {};
+  const tiers = ZOOM_LEVELS[zoomLevel].tiers;
 
-  let currentDate = moment(startDate);
-  const end = moment(endDate);
-
-  while (currentDate.isSameOrBefore(end, 'day')) {
-    const monthKey = currentDate.format('YYYY-MM');
-    if (!months[monthKey]) {
-      months[monthKey] = 0;
-    }
-    months[monthKey]++;
-
-    days.push({
-      date: currentDate.clone(),
-      day: currentDate.date(),
-      month: currentDate.format('MMM'),
-      isWeekend: currentDate.day() === 0 || currentDate.day() === 6,
-      monthKey
-    });
-
-    currentDate.add(1, 'day');
-  }
+  const tierCells = useMemo(
+    () => tiers.map(tier => calendar
+      ? buildHeaderCells(tier, range, date => workCalendar.isWorkingDay(calendar, date))
+      : buildHeaderCells(tier, range)),
+    [tiers, range, calendar]
+  );
 
   return (
     <HeaderContainer theme={theme}>
-      <TaskListHeader>Tasks</TaskListHeader>
-      <TimelineHeader>
-        <MonthRow theme={theme}>
-          {Object.entries(months).map(([monthKey, dayCount]) => {
-            const monthDate = moment(monthKey + '-01');
-            return (
-              <MonthCell
-                key={monthKey}
-                width={dayCount * dayWidth}
-                theme={theme}
-              >
-                {monthDate.format('MMM YYYY')}
-              </MonthCell>
-            );
-          })}
-        </MonthRow>
-        <DayRow>
-          {days.map((day, index) => (
-            <DayCell
-              key={index}
-              width={dayWidth}
-              theme={theme}
-              isWeekend={day.isWeekend}
-            >
-              {day.day}
-            </DayCell>
-          ))}
-        </DayRow>
+      <TaskListHeader theme={theme}>
+        {listTitle}
+        {listActions && <ListActions>{listActions}</ListActions>}
+      </TaskListHeader>
+      <TimelineHeader width={getTimelineWidth(range)}>
+        {tiers.map((tier, tierIndex) => {
+          const isPrimary = tierIndex < tiers.length - 1 || tiers.length === 1;
+          const cells = visibleTimeline
+            ? tierCells[tierIndex].filter(cell =>
+              cell.left + cell.width >= visibleTimeline.left && cell.left <= visibleTimeline.right
+            )
+            : tierCells[tierIndex];
+
+          return (
+            <TierRow key={tier.unit} theme={theme} isPrimary={isPrimary}>
+              {cells.map(cell => (
+                <HeaderCell
+                  key={cell.key}
+                  style={{ left: cell.left, width: cell.width }}
+                  theme={theme}
+                  isPrimary={isPrimary}
+                  isNonWorkingDay={cell.isNonWorkingDay}
+                  title={calendar && cell.isNonWorkingDay
+                    ? workCalendar.getHoliday(calendar, moment(cell.key, 'YYYY-MM-DD'))?.name
+                    : undefined}
+                >
+                  {cell.label}
+                </HeaderCell>
+              ))}
+            </TierRow>
+          );
+        })}
       </TimelineHeader>
     </HeaderContainer>
   );
 };
 
-export default GanttHeader;
\ No newline at end of file
+export default GanttHeader;
@@ -0,0 +1,475 @@
+import React, { useMemo, useState } from 'react';
+import styled from 'styled-components';
+import { MondayBoard } from '../types';
+import GanttChart from './GanttChart';
+import dataProcessor from '../services/dataProcessor';
+import mondayService from '../services/mondayService';
+import scheduleImporter, {
+  ImportMapping,
+  ImportPlanItem,
+  ImportProgress,
+  ImportSource
+} from '../services/scheduleImporter';
+
+interface ImportWizardProps {
+  boards: MondayBoard[];
+  defaultBoardId?: string;
+  onImported: () => void;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+}
+
+type WizardStep = 'source' | 'mapping' | 'preview';
+
+const STEP_TITLES: { [step in WizardStep]: string } = {
+  source: '1. Choose a file',
+  mapping: '2. Map fields to columns',
+  preview: '3. Preview and import'
+};
+
+const Overlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background-color: rgba(0, 0, 0, 0.5);
+  z-index: 1000;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`;
+
+const Panel = styled.div<{ theme: 'light' | 'dark'; wide: boolean }>`
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  border-radius: 8px;
+  padding: 24px;
+  width: ${props => props.wide ? '960px' : '600px'};
+  max-width: 90vw;
+  max-height: 90vh;
+  overflow-y: auto;
+  box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);
+`;
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 8px;
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  font-size: 20px;
+  font-weight: 600;
+`;
+
+const StepTitle = styled.div`
+  margin-bottom: 24px;
+  font-size: 14px;
+  opacity: 0.7;
+`;
+
+const CloseButton = styled.button<{ theme: 'light' | 'dark' }>`
+  background: none;
+  border: none;
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#666666'};
+  font-size: 24px;
+  cursor: pointer;
+  padding: 4px;
+  border-radius: 4px;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const FormField = styled.div`
+  margin-bottom: 16px;
+`;
+
+const FieldRow = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 12px;
+`;
+
+const Label = styled.label`
+  display: block;
+  margin-bottom: 6px;
+  font-size: 14px;
+  font-weight: 500;
+`;
+
+const Select = styled.select<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  padding: 8px 12px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+`;
+
+const FileInput = styled.input`
+  font-size: 14px;
+`;
+
+const HelpText = styled.div`
+  margin-top: 4px;
+  font-size: 12px;
+  opacity: 0.7;
+`;
+
+const ErrorText = styled.div`
+  margin-top: 8px;
+  font-size: 13px;
+  color: #e2445c;
+`;
+
+const PreviewContainer = styled.div<{ theme: 'light' | 'dark' }>`
+  height: 360px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  overflow: hidden;
+`;
+
+const Summary = styled.div`
+  margin-bottom: 12px;
+  font-size: 14px;
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 12px;
+  margin-top: 24px;
+`;
+
+const Button = styled.button<{ variant?: 'primary' | 'secondary'; theme: 'light' | 'dark' }>`
+  padding: 10px 20px;
+  border: ${props => props.variant === 'primary' ? 'none' : `1px solid ${props.theme === 'dark' ? '#555' : '#ddd'}`};
+  border-radius: 4px;
+  background-color: ${props => {
+    if (props.variant === 'primary') return '#037f4c';
+    return props.theme === 'dark' ? 'transparent' : '#ffffff';
+  }};
+  color: ${props => {
+    if (props.variant === 'primary') return '#ffffff';
+    return props.theme === 'dark' ? '#ffffff' : '#333333';
+  }};
+  font-size: 14px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background-color: ${props => {
+      if (props.variant === 'primary') return '#025d38';
+      return props.theme === 'dark' ? '#3a4149' : '#f5f6f8';
+    }};
+  }
+
+  &:focus {
+    outline: none;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const ImportWizard: React.FC<ImportWizardProps> = ({
+  boards,
+  defaultBoardId,
+  onImported,
+  onClose,
+  theme
+}) => {
+  const [step, setStep] = useState<WizardStep>('source');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [boardId, setBoardId] = useState(defaultBoardId || boards[0]?.id || '');
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [plan, setPlan] = useState<ImportPlanItem[]>([]);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const board = boards.find(b => b.id === boardId);
+  const boardColumns = useMemo(() => dataProcessor.getAvailableColumns(false, boardId), [boardId]);
+  const dateColumns = boardColumns.filter(column => column.type === 'timeline' || column.type === 'date');
+  const statusColumns = boardColumns.filter(column => column.type === 'status');
+  const peopleColumns = boardColumns.filter(column => column.type === 'people' || column.type === 'multiple_person');
+
+  const previewTasks = useMemo(
+    () => board && mapping ? scheduleImporter.buildPreviewTasks(plan, board, mapping) : [],
+    [plan, board, mapping]
+  );
+
+  const isImporting = progress !== null;
+
+  const handleFileChange = async (file?: File) => {
+    setFileError(null);
+    setSource(null);
+    if (!file) return;
+
+    try {
+      const parsed = await scheduleImporter.parseFile(file);
+      if (parsed.records.length === 0) {
+        throw new Error('The file has no tasks');
+      }
+      setSource(parsed);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : 'The file could not be read');
+    }
+  };
+
+  const goToMapping = () => {
+    if (!source || !board) return;
+    setMapping(scheduleImporter.guessMapping(source, board));
+    setStep('mapping');
+  };
+
+  const goToPreview = () => {
+    if (!source || !mapping) return;
+    setPlan(scheduleImporter.buildPlan(source, mapping));
+    setStep('preview');
+  };
+
+  const handlePreviewUpdate = (key: string, startDate: Date, endDate: Date) => {
+    setPlan(prev => prev.map(item => item.key === key ? { ...item, startDate, endDate } : item));
+  };
+
+  const handleImport = async () => {
+    if (!board || !mapping) return;
+
+    setProgress({ done: 0, total: plan.length });
+    try {
+      const result = await scheduleImporter.runImport(plan, board, mapping, setProgress);
+
+      if (result.failed.length > 0) {
+        mondayService.showNotice(
+          `Imported ${result.created} items; ${result.failed.length} failed: ${result.failed.slice(0, 5).join(', ')}`,
+          'error'
+        );
+      } else {
+        mondayService.showNotice(`Imported ${result.created} items into ${board.name}`, 'success');
+      }
+
+      if (result.unmatchedPeople.length > 0) {
+        mondayService.showNotice(
+          `No monday user found for: ${result.unmatchedPeople.slice(0, 5).join(', ')}`,
+          'info'
+        );
+      }
+
+      onImported();
+      onClose();
+    } catch (err) {
+      console.error('Import failed:', err);
+      mondayService.showNotice('Import failed', 'error');
+      setProgress(null);
+    }
+  };
+
+  const updateMapping = (partial: Partial<ImportMapping>) => {
+    if (mapping) setMapping({ ...mapping, ...partial });
+  };
+
+  const renderFieldSelect = (
+    value: string | undefined,
+    onChange: (field: string | undefined) => void,
+    emptyLabel: string
+  ) => (
+    <Select theme={theme} value={value || ''} onChange={(e) => onChange(e.target.value || undefined)}>
+      <option value="">{emptyLabel}</option>
+      {source?.fields.map(field => (
+        <option key={field} value={field}>{field}</option>
+      ))}
+    </Select>
+  );
+
+  const renderColumnSelect = (
+    value: string | undefined,
+    columns: Array<{id: string, title: string}>,
+    onChange: (columnId: string | undefined) => void
+  ) => (
+    <Select theme={theme} value={value || ''} onChange={(e) => onChange(e.target.value || undefined)}>
+      <option value="">Don't import</option>
+      {columns.map(column => (
+        <option key={column.id} value={column.id}>{column.title}</option>
+      ))}
+    </Select>
+  );
+
+  const renderSourceStep = () => (
+    <>
+      <FormField>
+        <Label>Schedule file</Label>
+        <FileInput
+          type="file"
+          accept=".csv,.txt,.xml"
+          onChange={(e) => handleFileChange(e.target.files?.[0])}
+        />
+        <HelpText>CSV with a header row, or an MS Project XML export.</HelpText>
+        {fileError && <ErrorText>{fileError}</ErrorText>}
+        {source && (
+          <HelpText>
+            Found {source.records.length} tasks ({source.format === 'msp' ? 'MS Project' : 'CSV'}).
+          </HelpText>
+        )}
+      </FormField>
+
+      <FormField>
+        <Label>Import into board</Label>
+        <Select theme={theme} value={boardId} onChange={(e) => setBoardId(e.target.value)}>
+          {boards.map(b => (
+            <option key={b.id} value={b.id}>{b.name}</option>
+          ))}
+        </Select>
+      </FormField>
+
+      <ButtonGroup>
+        <Button theme={theme} variant="secondary" onClick={onClose}>Cancel</Button>
+        <Button theme={theme} variant="primary" onClick={goToMapping} disabled={!source || !board}>
+          Next
+        </Button>
+      </ButtonGroup>
+    </>
+  );
+
+  const renderMappingStep = () => mapping && (
+    <>
+      <FormField>
+        <Label>Item name</Label>
+        {renderFieldSelect(mapping.nameField, field => updateMapping({ nameField: field || '' }), 'Choose a field')}
+      </FormField>
+
+      <FieldRow>
+        <FormField>
+          <Label>Start date</Label>
+          {renderFieldSelect(mapping.startField, field => updateMapping({ startField: field }), 'None')}
+        </FormField>
+        <FormField>
+          <Label>End date</Label>
+          {renderFieldSelect(mapping.endField, field => updateMapping({ endField: field }), 'None')}
+        </FormField>
+      </FieldRow>
+
+      <FormField>
+        <Label>Write dates to</Label>
+        {renderColumnSelect(mapping.dateColumnId, dateColumns, columnId => updateMapping({ dateColumnId: columnId }))}
+      </FormField>
+
+      <FieldRow>
+        <FormField>
+          <Label>Status field</Label>
+          {renderFieldSelect(mapping.statusField, field => updateMapping({ statusField: field }), 'None')}
+        </FormField>
+        <FormField>
+          <Label>Status column</Label>
+          {renderColumnSelect(mapping.statusColumnId, statusColumns, columnId => updateMapping({ statusColumnId: columnId }))}
+        </FormField>
+      </FieldRow>
+
+      <FieldRow>
+        <FormField>
+          <Label>People field</Label>
+          {renderFieldSelect(mapping.peopleField, field => updateMapping({ peopleField: field }), 'None')}
+        </FormField>
+        <FormField>
+          <Label>People column</Label>
+          {renderColumnSelect(mapping.peopleColumnId, peopleColumns, columnId => updateMapping({ peopleColumnId: columnId }))}
+        </FormField>
+      </FieldRow>
+      <HelpText>People are matched to monday users by name or email.</HelpText>
+
+      {source?.format === 'csv' && (
+        <FormField>
+          <Label>Parent task field</Label>
+          {renderFieldSelect(mapping.parentField, field => updateMapping({ parentField: field }), 'No subitems')}
+          <HelpText>Rows naming a parent task are created as its subitems.</HelpText>
+        </FormField>
+      )}
+
+      <FormField>
+        <Label>Group</Label>
+        <Select
+          theme={theme}
+          value={mapping.groupId || ''}
+          onChange={(e) => updateMapping({ groupId: e.target.value || undefined })}
+        >
+          {board?.groups.map(group => (
+            <option key={group.id} value={group.id}>{group.title}</option>
+          ))}
+        </Select>
+      </FormField>
+
+      <ButtonGroup>
+        <Button theme={theme} variant="secondary" onClick={() => setStep('source')}>Back</Button>
+        <Button theme={theme} variant="primary" onClick={goToPreview} disabled={!mapping.nameField}>
+          Preview
+        </Button>
+      </ButtonGroup>
+    </>
+  );
+
+  const renderPreviewStep = () => {
+    const subitemCount = plan.filter(item => item.parentKey).length;
+    const undatedCount = plan.filter(item => !item.startDate).length;
+
+    return (
+      <>
+        <Summary>
+          {plan.length - subitemCount} items and {subitemCount} subitems will be created in {board?.name}.
+          {undatedCount > 0 && ` ${undatedCount} have no dates and are not shown below.`}
+          {' '}Drag bars to adjust dates before importing.
+        </Summary>
+
+        <PreviewContainer theme={theme}>
+          <GanttChart tasks={previewTasks} theme={theme} onTaskUpdate={handlePreviewUpdate} />
+        </PreviewContainer>
+
+        <ButtonGroup>
+          <Button theme={theme} variant="secondary" onClick={() => setStep('mapping')} disabled={isImporting}>
+            Back
+          </Button>
+          <Button theme={theme} variant="primary" onClick={handleImport} disabled={isImporting || plan.length === 0}>
+            {progress ? `Importing ${progress.done}/${progress.total}...` : `Import ${plan.length} tasks`}
+          </Button>
+        </ButtonGroup>
+      </>
+    );
+  };
+
+  return (
+    <Overlay onClick={isImporting ? undefined : onClose}>
+      <Panel theme={theme} wide={step === 'preview'} onClick={(e) => e.stopPropagation()}>
+        <Header>
+          <Title>Import Schedule</Title>
+          <CloseButton theme={theme} onClick={onClose} disabled={isImporting}>×</CloseButton>
+        </Header>
+        <StepTitle>{STEP_TITLES[step]}</StepTitle>
+
+        {step === 'source' && renderSourceStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'preview' && renderPreviewStep()}
+      </Panel>
+    </Overlay>
+  );
+};
+
+export default ImportWizard;
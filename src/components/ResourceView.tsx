@@ -0,0 +1,308 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import styled from 'styled-components';
+import moment from 'moment';
+import { GanttTask, WorkCalendar, ZoomLevel } from '../types';
+import resourcePlanner, { ResourceRow } from '../services/resourcePlanner';
+import GanttBar from './GanttBar';
+import GanttHeader from './GanttHeader';
+import { ROW_HEIGHT, TASK_LIST_WIDTH, getTaskGeometry } from '../utils/layout';
+import { DEFAULT_ZOOM_LEVEL, dateToX, getChartRange, getTimelineWidth } from '../utils/timeScale';
+import { DEFAULT_RESOURCE_CAPACITY } from '../utils/settingsDefaults';
+
+interface ResourceViewProps {
+  tasks: GanttTask[];
+  theme: 'light' | 'dark';
+  zoomLevel?: ZoomLevel;
+  capacity?: number;
+  calendar?: WorkCalendar;
+  onTaskClick?: (task: GanttTask) => void;
+  onTaskUpdate?: (taskId: string, startDate: Date, endDate: Date) => void;
+}
+
+const HISTOGRAM_HEIGHT = 32;
+// Pixels rendered beyond the viewport to avoid blank edges while scrolling
+const OVERSCAN = 400;
+
+const ResourceContainer = styled.div<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  height: 100%;
+  overflow: auto;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-family: "Figtree", -apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", sans-serif;
+`;
+
+const ResourceContent = styled.div<{ width: number }>`
+  display: flex;
+  flex-direction: column;
+  min-width: ${props => props.width}px;
+`;
+
+const RowList = styled.div`
+  position: relative;
+`;
+
+const PersonRow = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  left: 0;
+  right: 0;
+  display: flex;
+  box-sizing: border-box;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+`;
+
+const PersonInfo = styled.div<{ theme: 'light' | 'dark' }>`
+  position: sticky;
+  left: 0;
+  z-index: 2;
+  width: ${TASK_LIST_WIDTH}px;
+  box-sizing: border-box;
+  padding: 12px 16px;
+  flex-shrink: 0;
+  overflow: hidden;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+`;
+
+const PersonName = styled.div<{ isUnassigned?: boolean }>`
+  font-weight: 500;
+  font-size: 14px;
+  font-style: ${props => props.isUnassigned ? 'italic' : 'normal'};
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+`;
+
+const PersonMeta = styled.div<{ isOverallocated?: boolean }>`
+  font-size: 12px;
+  color: ${props => props.isOverallocated ? '#e2445c' : '#666'};
+  margin-top: 2px;
+`;
+
+const PersonTimeline = styled.div`
+  flex: 1;
+  position: relative;
+`;
+
+const Lane = styled.div`
+  position: absolute;
+  left: 0;
+  right: 0;
+  height: ${ROW_HEIGHT}px;
+`;
+
+const Histogram = styled.div<{ theme: 'light' | 'dark' }>`
+  position: absolute;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  height: ${HISTOGRAM_HEIGHT}px;
+  border-top: 1px dashed ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
+  background-color: ${props => props.theme === 'dark' ? '#30363f' : '#fafbfc'};
+`;
+
+const LoadBar = styled.div<{ isOverallocated: boolean }>`
+  position: absolute;
+  bottom: 0;
+  box-sizing: border-box;
+  border-right: 1px solid transparent;
+  background-clip: padding-box;
+  background-color: ${props => props.isOverallocated ? '#e2445c' : '#579bfc'};
+  opacity: 0.8;
+`;
+
+const CapacityLine = styled.div`
+  position: absolute;
+  left: 0;
+  right: 0;
+  border-top: 1px dashed #e2445c;
+  pointer-events: none;
+`;
+
+const EmptyState = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  height: 200px;
+  font-size: 16px;
+  color: ${props => props.theme === 'dark' ? '#999' : '#666'};
+`;
+
+// The unassigned row has no capacity to chart
+const getRowHeight = (row: ResourceRow) =>
+  row.laneCount * ROW_HEIGHT + (row.isUnassigned ? 0 : HISTOGRAM_HEIGHT);
+
+/**
+ * Resource-loading view: one row per assignee with their tasks stacked in
+ * lanes, and a histogram of daily load against capacity under each row.
+ */
+const ResourceView: React.FC<ResourceViewProps> = ({
+  tasks,
+  theme,
+  zoomLevel = DEFAULT_ZOOM_LEVEL,
+  capacity = DEFAULT_RESOURCE_CAPACITY,
+  calendar,
+  onTaskClick,
+  onTaskUpdate
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollFrameRef = useRef<number | null>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({
+    width: window.innerWidth,
+    height: window.innerHeight
+  });
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => {
+      setViewport({ width: container.clientWidth, height: container.clientHeight });
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      if (scrollFrameRef.current !== null) {
+        cancelAnimationFrame(scrollFrameRef.current);
+      }
+    };
+  }, []);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const target = e.currentTarget;
+    if (scrollFrameRef.current !== null) return;
+
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null;
+      setScroll({ top: target.scrollTop, left: target.scrollLeft });
+    });
+  };
+
+  const rows = useMemo(() => resourcePlanner.buildRows(tasks, capacity), [tasks, capacity]);
+
+  const range = useMemo(() => {
+    const datedTasks = tasks.filter(task => task.startDate && task.endDate);
+    if (datedTasks.length === 0) return null;
+
+    const minTime = Math.min(...datedTasks.map(task => task.startDate!.getTime()));
+    const maxTime = Math.max(...datedTasks.map(task => task.endDate!.getTime()));
+
+    return getChartRange(
+      new Date(minTime),
+      new Date(maxTime),
+      zoomLevel,
+      Math.max(800, viewport.width - TASK_LIST_WIDTH)
+    );
+  }, [tasks, zoomLevel, viewport.width]);
+
+  const rowTops = useMemo(() => {
+    let top = 0;
+    return rows.map(row => {
+      const rowTop = top;
+      top += getRowHeight(row);
+      return rowTop;
+    });
+  }, [rows]);
+
+  if (!range || rows.length === 0) {
+    return (
+      <ResourceContainer theme={theme} ref={containerRef}>
+        <EmptyState theme={theme}>No scheduled tasks to plan</EmptyState>
+      </ResourceContainer>
+    );
+  }
+
+  const timelineWidth = getTimelineWidth(range);
+  const totalHeight = rows.length > 0 ? rowTops[rows.length - 1] + getRowHeight(rows[rows.length - 1]) : 0;
+
+  const visibleTimeline = {
+    left: scroll.left - OVERSCAN,
+    right: scroll.left + viewport.width - TASK_LIST_WIDTH + OVERSCAN
+  };
+
+  const isVisible = (left: number, width: number) =>
+    left + width >= visibleTimeline.left && left <= visibleTimeline.right;
+
+  const visibleRows = rows
+    .map((row, index) => ({ row, top: rowTops[index] }))
+    .filter(({ row, top }) =>
+      top + getRowHeight(row) >= scroll.top - OVERSCAN && top <= scroll.top + viewport.height + OVERSCAN
+    );
+
+  const renderHistogram = (row: ResourceRow) => {
+    const peak = Math.max(capacity, ...Object.values(row.load));
+    const barArea = HISTOGRAM_HEIGHT - 4;
+
+    return (
+      <Histogram theme={theme}>
+        {Object.entries(row.load).map(([day, count]) => {
+          const left = dateToX(moment(day, 'YYYY-MM-DD'), range.start, range.dayWidth);
+          if (!isVisible(left, range.dayWidth)) return null;
+
+          return (
+            <LoadBar
+              key={day}
+              isOverallocated={count > capacity}
+              style={{ left, width: range.dayWidth, height: (count / peak) * barArea }}
+              title={`${moment(day, 'YYYY-MM-DD').format('MMM DD')}: ${count} task${count !== 1 ? 's' : ''} (capacity ${capacity})`}
+            />
+          );
+        })}
+        <CapacityLine style={{ bottom: (capacity / peak) * barArea }} />
+      </Histogram>
+    );
+  };
+
+  return (
+    <ResourceContainer theme={theme} ref={containerRef} onScroll={handleScroll}>
+      <ResourceContent width={TASK_LIST_WIDTH + timelineWidth}>
+        <GanttHeader
+          range={range}
+          zoomLevel={zoomLevel}
+          theme={theme}
+          listTitle="People"
+          calendar={calendar}
+          visibleTimeline={visibleTimeline}
+        />
+        <RowList style={{ height: totalHeight }}>
+          {visibleRows.map(({ row, top }) => (
+            <PersonRow key={row.key} theme={theme} style={{ top, height: getRowHeight(row) }}>
+              <PersonInfo theme={theme}>
+                <PersonName isUnassigned={row.isUnassigned}>{row.name}</PersonName>
+                <PersonMeta>{row.slots.length} task{row.slots.length !== 1 ? 's' : ''}</PersonMeta>
+                {!row.isUnassigned && row.overallocatedDays > 0 && (
+                  <PersonMeta isOverallocated>
+                    Over capacity on {row.overallocatedDays} day{row.overallocatedDays !== 1 ? 's' : ''}
+                  </PersonMeta>
+                )}
+              </PersonInfo>
+              <PersonTimeline>
+                {row.slots
+                  .filter(({ task }) => {
+                    const { left, width } = getTaskGeometry(task, range.start, range.dayWidth);
+                    return isVisible(left, width);
+                  })
+                  .map(({ task, lane }) => (
+                    <Lane key={task.id} style={{ top: lane * ROW_HEIGHT }}>
+                      <GanttBar
+                        task={task}
+                        startDate={range.start}
+                        dayWidth={range.dayWidth}
+                        theme={theme}
+                        onClick={() => onTaskClick?.(task)}
+                        onUpdate={onTaskUpdate}
+                      />
+                    </Lane>
+                  ))}
+                {!row.isUnassigned && renderHistogram(row)}
+              </PersonTimeline>
+            </PersonRow>
+          ))}
+        </RowList>
+      </ResourceContent>
+    </ResourceContainer>
+  );
+};
+
+export default ResourceView;
@@ -0,0 +1,221 @@
+import React from 'react';
+import styled from 'styled-components';
+import moment from 'moment';
+import { TaskDateChange } from '../types';
+import workCalendar, { STANDARD_CALENDAR } from '../services/workCalendar';
+
+interface SchedulePreviewProps {
+  // The tasks that were dragged or shifted, and the tasks they push or pull
+  moved: TaskDateChange[];
+  changes: TaskDateChange[];
+  saving: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  theme: 'light' | 'dark';
+}
+
+const Overlay = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background-color: rgba(0, 0, 0, 0.5);
+  z-index: 1000;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+`;
+
+const Panel = styled.div<{ theme: 'light' | 'dark' }>`
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  border-radius: 8px;
+  padding: 24px;
+  width: 640px;
+  max-width: 90vw;
+  max-height: 90vh;
+  display: flex;
+  flex-direction: column;
+  box-shadow: 0 8px 32px rgba(0, 0, 0, 0.3);
+`;
+
+const Title = styled.h2`
+  margin: 0 0 8px 0;
+  font-size: 20px;
+  font-weight: 600;
+`;
+
+const Description = styled.p`
+  margin: 0 0 16px 0;
+  font-size: 14px;
+  opacity: 0.8;
+`;
+
+const TableWrapper = styled.div<{ theme: 'light' | 'dark' }>`
+  flex: 1;
+  min-height: 0;
+  overflow-y: auto;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+`;
+
+const Table = styled.table<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 13px;
+
+  th, td {
+    padding: 8px 12px;
+    text-align: left;
+    border-bottom: 1px solid ${props => props.theme === 'dark' ? '#444' : '#eee'};
+    white-space: nowrap;
+  }
+
+  th {
+    position: sticky;
+    top: 0;
+    font-weight: 600;
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+
+  td:first-child {
+    max-width: 220px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+`;
+
+const MovedRow = styled.tr`
+  font-weight: 600;
+`;
+
+const Shift = styled.span<{ direction: number }>`
+  color: ${props => props.direction > 0 ? '#e2445c' : props.direction < 0 ? '#00c875' : 'inherit'};
+`;
+
+const ButtonGroup = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: 12px;
+  margin-top: 24px;
+`;
+
+const Button = styled.button<{ variant?: 'primary' | 'secondary'; theme: 'light' | 'dark' }>`
+  padding: 10px 20px;
+  border: ${props => props.variant === 'primary' ? 'none' : `1px solid ${props.theme === 'dark' ? '#555' : '#ddd'}`};
+  border-radius: 4px;
+  background-color: ${props => {
+    if (props.variant === 'primary') return '#037f4c';
+    return props.theme === 'dark' ? 'transparent' : '#ffffff';
+  }};
+  color: ${props => {
+    if (props.variant === 'primary') return '#ffffff';
+    return props.theme === 'dark' ? '#ffffff' : '#333333';
+  }};
+  font-size: 14px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background-color: ${props => {
+      if (props.variant === 'primary') return '#025d38';
+      return props.theme === 'dark' ? '#3a4149' : '#f5f6f8';
+    }};
+  }
+
+  &:focus {
+    outline: none;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const formatDates = (startDate: Date | null, endDate: Date | null): string =>
+  startDate && endDate
+    ? `${moment(startDate).format('MMM DD')} - ${moment(endDate).format('MMM DD, YYYY')}`
+    : '—';
+
+// Shift of the start in working days of the task's calendar
+const getShift = ({ task, startDate }: TaskDateChange): number =>
+  task.startDate ? workCalendar.workingDaysBetween(task.calendar || STANDARD_CALENDAR, task.startDate, startDate) : 0;
+
+const formatShift = (days: number): string =>
+  days === 0 ? 'No change' : `${days > 0 ? '+' : ''}${days} working day${Math.abs(days) !== 1 ? 's' : ''}`;
+
+/**
+ * Confirmation step for auto-scheduling: lists the moved tasks and every
+ * dependent task with its current and proposed dates.
+ */
+const SchedulePreview: React.FC<SchedulePreviewProps> = ({
+  moved,
+  changes,
+  saving,
+  onConfirm,
+  onCancel,
+  theme
+}) => {
+  const renderRow = (change: TaskDateChange) => {
+    const shift = getShift(change);
+
+    return (
+      <>
+        <td title={change.task.name}>{change.task.name}</td>
+        <td>{formatDates(change.task.startDate, change.task.endDate)}</td>
+        <td>{formatDates(change.startDate, change.endDate)}</td>
+        <td><Shift direction={shift}>{formatShift(shift)}</Shift></td>
+      </>
+    );
+  };
+
+  const movedName = moved.length === 1 ? moved[0].task.name : `${moved.length} tasks`;
+
+  return (
+    <Overlay>
+      <Panel theme={theme}>
+        <Title>Reschedule dependent tasks</Title>
+        <Description>
+          Moving {movedName} also moves {changes.length} dependent task{changes.length !== 1 ? 's' : ''}.
+          All changes are saved together.
+        </Description>
+
+        <TableWrapper theme={theme}>
+          <Table theme={theme}>
+            <thead>
+              <tr>
+                <th>Task</th>
+                <th>Current</th>
+                <th>New</th>
+                <th>Shift</th>
+              </tr>
+            </thead>
+            <tbody>
+              {moved.map(change => (
+                <MovedRow key={change.task.id}>{renderRow(change)}</MovedRow>
+              ))}
+              {changes.map(change => (
+                <tr key={change.task.id}>{renderRow(change)}</tr>
+              ))}
+            </tbody>
+          </Table>
+        </TableWrapper>
+
+        <ButtonGroup>
+          <Button theme={theme} onClick={onCancel} disabled={saving}>
+            Cancel
+          </Button>
+          <Button theme={theme} variant="primary" onClick={onConfirm} disabled={saving}>
+            {saving ? 'Saving...' : `Move ${moved.length + changes.length} tasks`}
+          </Button>
+        </ButtonGroup>
+      </Panel>
+    </Overlay>
+  );
+};
+
+export default SchedulePreview;
@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import { MondayUser } from '../types';
+import mondayService from '../services/mondayService';
+
+interface SelectionToolbarProps {
+  count: number;
+  // Labels offered for the status change; none hides it
+  statusLabels?: string[];
+  onShift?: (days: number) => void;
+  onSetStatus?: (label: string) => void;
+  onAssign?: (user: MondayUser) => void;
+  onDelete?: () => void;
+  onClear: () => void;
+  theme: 'light' | 'dark';
+}
+
+// Floats over the chart so it doesn't shift rows when the selection changes
+const Toolbar = styled.div<{ theme: 'light' | 'dark' }>`
+  position: fixed;
+  bottom: 24px;
+  left: 50%;
+  transform: translateX(-50%);
+  z-index: 800;
+  display: flex;
+  align-items: center;
+  gap: 12px;
+  padding: 10px 16px;
+  border-radius: 8px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  box-shadow: 0 4px 16px rgba(0, 0, 0, 0.25);
+  font-size: 14px;
+  white-space: nowrap;
+`;
+
+const Count = styled.span`
+  font-weight: 600;
+`;
+
+const Divider = styled.span<{ theme: 'light' | 'dark' }>`
+  align-self: stretch;
+  width: 1px;
+  background-color: ${props => props.theme === 'dark' ? '#555' : '#e0e0e0'};
+`;
+
+const ShiftGroup = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 6px;
+`;
+
+const DaysInput = styled.input<{ theme: 'light' | 'dark' }>`
+  width: 56px;
+  padding: 6px 8px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  color: inherit;
+  font-size: 13px;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+  }
+`;
+
+const Select = styled.select<{ theme: 'light' | 'dark' }>`
+  padding: 6px 8px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  color: inherit;
+  font-size: 13px;
+  cursor: pointer;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+  }
+`;
+
+const Button = styled.button<{ variant?: 'danger'; theme: 'light' | 'dark' }>`
+  padding: 6px 12px;
+  border: 1px solid ${props => props.variant === 'danger' ? '#e2445c' : props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background: transparent;
+  color: ${props => props.variant === 'danger' ? '#e2445c' : 'inherit'};
+  font-size: 13px;
+  cursor: pointer;
+
+  &:hover {
+    background-color: ${props => props.variant === 'danger'
+      ? 'rgba(226, 68, 92, 0.1)'
+      : props.theme === 'dark' ? '#292f3a' : '#f5f6f8'};
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const CloseButton = styled.button`
+  padding: 0 4px;
+  border: none;
+  background: none;
+  color: inherit;
+  font-size: 18px;
+  line-height: 1;
+  cursor: pointer;
+  opacity: 0.6;
+
+  &:hover {
+    opacity: 1;
+  }
+`;
+
+/**
+ * Bulk actions for the tasks selected in the chart: shifting their dates,
+ * setting a status, assigning a person and deleting them.
+ */
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count,
+  statusLabels = [],
+  onShift,
+  onSetStatus,
+  onAssign,
+  onDelete,
+  onClear,
+  theme
+}) => {
+  const [shiftDays, setShiftDays] = useState('1');
+  const [users, setUsers] = useState<MondayUser[]>([]);
+  const canAssign = !!onAssign;
+
+  useEffect(() => {
+    if (canAssign && users.length === 0) {
+      mondayService.getUsers().then(setUsers);
+    }
+  }, [canAssign]);
+
+  const days = parseInt(shiftDays, 10);
+
+  return (
+    <Toolbar theme={theme}>
+      <Count>{count} selected</Count>
+      <Divider theme={theme} />
+      {onShift && (
+        <ShiftGroup>
+          <DaysInput
+            theme={theme}
+            type="number"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(e.target.value)}
+            aria-label="Days to shift by"
+            title="Negative values move the tasks earlier"
+          />
+          <Button theme={theme} disabled={!days} onClick={() => onShift(days)}>
+            Shift days
+          </Button>
+        </ShiftGroup>
+      )}
+      {onSetStatus && statusLabels.length > 0 && (
+        <Select
+          theme={theme}
+          value=""
+          onChange={(e) => e.target.value && onSetStatus(e.target.value)}
+          aria-label="Set status"
+        >
+          <option value="">Set status…</option>
+          {statusLabels.map(label => <option key={label} value={label}>{label}</option>)}
+        </Select>
+      )}
+      {onAssign && (
+        <Select
+          theme={theme}
+          value=""
+          onChange={(e) => {
+            const user = users.find(u => u.id === e.target.value);
+            if (user) onAssign(user);
+          }}
+          aria-label="Assign person"
+        >
+          <option value="">Assign to…</option>
+          {users.map(user => <option key={user.id} value={user.id}>{user.name}</option>)}
+        </Select>
+      )}
+      {onDelete && (
+        <Button theme={theme} variant="danger" onClick={onDelete}>
+          Delete
+        </Button>
+      )}
+      <CloseButton title="Clear selection (Esc)" onClick={onClear}>×</CloseButton>
+    </Toolbar>
+  );
+};
+
+export default SelectionToolbar;
@@ -1,17 +1,30 @@
 import React, { useState } from 'react';
 import styled from 'styled-components';
+import moment from 'moment';
 import {
+  AvailableColumn,
+  BoardColumnMapping,
+  BoardDateMapping,
+  DateMappingMode,
   GanttSettings,
   MondayBoard,
+  SchedulingMode,
+  TaskBaseline,
+  WorkCalendar,
   ColorByOption,
   GroupByOption,
   SortByOption
 } from '../types';
+import { DEFAULT_POLL_INTERVAL_SECONDS, DEFAULT_RESOURCE_CAPACITY } from '../utils/settingsDefaults';
+import workCalendar, { WEEKDAY_LABELS } from '../services/workCalendar';
 
 interface SettingsPanelProps {
   settings: GanttSettings;
   boards: MondayBoard[];
-  availableColumns: Array<{id: string, title: string, type: string}>;
+  availableColumns: AvailableColumn[];
+  baselines: TaskBaseline[];
+  onCreateBaseline: (name: string) => Promise<TaskBaseline | null>;
+  onDeleteBaseline: (baselineId: string) => Promise<void>;
   onSettingsChange: (settings: GanttSettings) => void;
   onClose: () => void;
   theme: 'light' | 'dark';
@@ -106,6 +119,29 @@ const Select = styled.select<{ theme: 'light' | 'dark' }>`
   }
 `;
 
+const Input = styled.input<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px 12px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+`;
+
+const HelpText = styled.div`
+  margin-top: 4px;
+  font-size: 12px;
+  opacity: 0.7;
+`;
+
 const Checkbox = styled.input<{ theme: 'light' | 'dark' }>`
   margin-right: 8px;
   accent-color: #037f4c;
@@ -127,6 +163,82 @@ const BoardList = styled.div`
   padding: 8px;
 `;
 
+const BoardMapping = styled.div<{ theme: 'light' | 'dark' }>`
+  margin-bottom: 12px;
+  padding: 12px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+`;
+
+const BoardMappingTitle = styled.div`
+  margin-bottom: 8px;
+  font-size: 14px;
+  font-weight: 600;
+`;
+
+const MappingFields = styled.div`
+  display: grid;
+  grid-template-columns: 1fr 1fr;
+  gap: 8px;
+`;
+
+const InlineRow = styled.div`
+  display: flex;
+  gap: 8px;
+  align-items: center;
+`;
+
+const WeekdayRow = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 4px 16px;
+`;
+
+const HolidayList = styled.div<{ theme: 'light' | 'dark' }>`
+  max-height: 160px;
+  overflow-y: auto;
+  margin-bottom: 8px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+`;
+
+const HolidayItem = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  padding: 4px 8px;
+  font-size: 13px;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#444' : '#eee'};
+
+  &:last-child {
+    border-bottom: none;
+  }
+`;
+
+const HolidayName = styled.span`
+  flex: 1;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  white-space: nowrap;
+  opacity: 0.8;
+`;
+
+const RemoveButton = styled.button<{ theme: 'light' | 'dark' }>`
+  background: none;
+  border: none;
+  font-size: 16px;
+  cursor: pointer;
+  color: ${props => props.theme === 'dark' ? '#999' : '#666'};
+
+  &:hover {
+    color: #e2445c;
+  }
+`;
+
+const FileInput = styled.input`
+  font-size: 14px;
+`;
+
 const ButtonGroup = styled.div`
   display: flex;
   justify-content: flex-end;
@@ -162,32 +274,54 @@ const Button = styled.button<{ variant?: 'primary' | 'secondary'; theme: 'light'
     outline: none;
     box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
   }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
 `;
 
+const COLORABLE_TYPES = ['status', 'color', 'dropdown', 'text'];
+const GROUPABLE_TYPES = ['status', 'dropdown', 'text', 'people', 'team'];
+const SORTABLE_TYPES = ['text', 'numeric', 'rating', 'date', 'timeline', 'creation_log'];
+
 const SettingsPanel: React.FC<SettingsPanelProps> = ({
   settings,
   boards,
   availableColumns,
+  baselines,
+  onCreateBaseline,
+  onDeleteBaseline,
   onSettingsChange,
   onClose,
   theme
 }) => {
   const [localSettings, setLocalSettings] = useState<GanttSettings>(settings);
+  const [baselineName, setBaselineName] = useState('');
+  const [savingBaseline, setSavingBaseline] = useState(false);
+  const [editingCalendarId, setEditingCalendarId] = useState(
+    () => workCalendar.resolveCalendar(settings).id
+  );
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [calendarMessage, setCalendarMessage] = useState<string | null>(null);
 
   const timelineColumns = availableColumns.filter(col =>
     col.type === 'timeline' || col.type === 'date'
   );
 
-  const colorableColumns = availableColumns.filter(col =>
-    ['status', 'color', 'dropdown', 'text'].includes(col.type)
-  );
+  const colorableColumns = availableColumns.filter(col => COLORABLE_TYPES.includes(col.type));
 
-  const groupableColumns = availableColumns.filter(col =>
-    ['status', 'dropdown', 'text', 'people', 'team'].includes(col.type)
+  const groupableColumns = availableColumns.filter(col => GROUPABLE_TYPES.includes(col.type));
+
+  const milestoneColumns = availableColumns.filter(col =>
+    ['checkbox', 'status', 'dropdown', 'text', 'mirror', 'lookup'].includes(col.type)
   );
 
-  const sortableColumns = availableColumns.filter(col =>
-    ['text', 'numeric', 'rating', 'date', 'timeline', 'creation_log'].includes(col.type)
+  const sortableColumns = availableColumns.filter(col => SORTABLE_TYPES.includes(col.type));
+
+  const peopleColumns = availableColumns.filter(col =>
+    ['people', 'multiple_person', 'mirror', 'lookup'].includes(col.type)
   );
 
   const handleSave = () => {
@@ -195,6 +329,242 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
     onClose();
   };
 
+  const handleCreateBaseline = async () => {
+    setSavingBaseline(true);
+    const baseline = await onCreateBaseline(baselineName.trim() || `Baseline ${baselines.length + 1}`);
+    setSavingBaseline(false);
+
+    if (baseline) {
+      setBaselineName('');
+      setLocalSettings({ ...localSettings, baselineId: baseline.id });
+    }
+  };
+
+  const handleDeleteBaseline = async (baselineId: string) => {
+    await onDeleteBaseline(baselineId);
+    setLocalSettings({ ...localSettings, baselineId: undefined });
+  };
+
+  const mappedBoards = localSettings.selectedBoards && localSettings.selectedBoards.length > 0
+    ? boards.filter(board => localSettings.selectedBoards!.includes(board.id))
+    : boards;
+
+  const updateDateMapping = (boardId: string, changes: Partial<BoardDateMapping>) => {
+    const current = localSettings.boardDateMappings?.[boardId] || { mode: 'timeline' };
+    setLocalSettings({
+      ...localSettings,
+      boardDateMappings: {
+        ...localSettings.boardDateMappings,
+        [boardId]: { ...current, ...changes }
+      }
+    });
+  };
+
+  const updateColumnMapping = (boardId: string, changes: Partial<BoardColumnMapping>) => {
+    setLocalSettings({
+      ...localSettings,
+      boardColumnMappings: {
+        ...localSettings.boardColumnMappings,
+        [boardId]: { ...localSettings.boardColumnMappings?.[boardId], ...changes }
+      }
+    });
+  };
+
+  const hasSort = !!localSettings.sortByColumn || Object.values(localSettings.boardColumnMappings || {})
+    .some(mapping => !!mapping.sortByColumn);
+
+  const renderBoardColumnSelect = (
+    board: MondayBoard,
+    types: string[],
+    value: string | undefined,
+    emptyLabel: string,
+    onChange: (columnId: string | undefined) => void
+  ) => (
+    <Select theme={theme} value={value || ''} onChange={(e) => onChange(e.target.value || undefined)}>
+      <option value="">{emptyLabel}</option>
+      {board.columns
+        .filter(column => !column.archived && types.includes(column.type))
+        .map(column => (
+          <option key={column.id} value={column.id}>{column.title}</option>
+        ))}
+    </Select>
+  );
+
+  const renderDateMapping = (board: MondayBoard) => {
+    const mapping = localSettings.boardDateMappings?.[board.id] || { mode: 'timeline' as DateMappingMode };
+
+    return (
+      <BoardMapping key={board.id} theme={theme}>
+        <BoardMappingTitle>{board.name}</BoardMappingTitle>
+        <FormField>
+          <Select
+            theme={theme}
+            value={mapping.mode}
+            onChange={(e) => updateDateMapping(board.id, { mode: e.target.value as DateMappingMode })}
+          >
+            <option value="timeline">Timeline or date column</option>
+            <option value="start_end">Start date + end date columns</option>
+            <option value="start_duration">Start date + duration (days)</option>
+          </Select>
+        </FormField>
+
+        {mapping.mode === 'timeline' && renderBoardColumnSelect(
+          board,
+          ['timeline', 'date'],
+          mapping.timelineColumn,
+          'Use the default timeline column',
+          timelineColumn => updateDateMapping(board.id, { timelineColumn })
+        )}
+
+        {mapping.mode !== 'timeline' && (
+          <MappingFields>
+            {renderBoardColumnSelect(
+              board,
+              ['date'],
+              mapping.startColumn,
+              'Start date column',
+              startColumn => updateDateMapping(board.id, { startColumn })
+            )}
+            {mapping.mode === 'start_end'
+              ? renderBoardColumnSelect(
+                board,
+                ['date'],
+                mapping.endColumn,
+                'End date column',
+                endColumn => updateDateMapping(board.id, { endColumn })
+              )
+              : renderBoardColumnSelect(
+                board,
+                ['numbers', 'numeric'],
+                mapping.durationColumn,
+                'Duration column',
+                durationColumn => updateDateMapping(board.id, { durationColumn })
+              )}
+          </MappingFields>
+        )}
+      </BoardMapping>
+    );
+  };
+
+  const renderColumnMapping = (board: MondayBoard) => {
+    const mapping = localSettings.boardColumnMappings?.[board.id] || {};
+
+    return (
+      <BoardMapping key={board.id} theme={theme}>
+        <BoardMappingTitle>{board.name}</BoardMappingTitle>
+        <MappingFields>
+          {renderBoardColumnSelect(
+            board,
+            COLORABLE_TYPES,
+            mapping.colorByColumn,
+            'Color by: default',
+            colorByColumn => updateColumnMapping(board.id, { colorByColumn })
+          )}
+          {renderBoardColumnSelect(
+            board,
+            GROUPABLE_TYPES,
+            mapping.groupByColumn,
+            'Group by: default',
+            groupByColumn => updateColumnMapping(board.id, { groupByColumn })
+          )}
+          {renderBoardColumnSelect(
+            board,
+            SORTABLE_TYPES,
+            mapping.sortByColumn,
+            'Sort by: default',
+            sortByColumn => updateColumnMapping(board.id, { sortByColumn })
+          )}
+        </MappingFields>
+      </BoardMapping>
+    );
+  };
+
+  const calendars = workCalendar.getCalendars(localSettings);
+  const editingCalendar = calendars.find(calendar => calendar.id === editingCalendarId) || calendars[0];
+
+  // Editing the built-in calendar saves it as the first configured one
+  const updateCalendar = (changes: Partial<WorkCalendar>) => {
+    setLocalSettings({
+      ...localSettings,
+      calendars: calendars.map(calendar =>
+        calendar.id === editingCalendar.id ? { ...calendar, ...changes } : calendar
+      )
+    });
+  };
+
+  const handleAddCalendar = () => {
+    const calendar = workCalendar.createCalendar(`Calendar ${calendars.length + 1}`);
+    setLocalSettings({ ...localSettings, calendars: [...calendars, calendar] });
+    setEditingCalendarId(calendar.id);
+  };
+
+  const handleDeleteCalendar = () => {
+    const remaining = calendars.filter(calendar => calendar.id !== editingCalendar.id);
+    const boardCalendars = { ...localSettings.boardCalendars };
+    Object.keys(boardCalendars).forEach(boardId => {
+      if (boardCalendars[boardId] === editingCalendar.id) delete boardCalendars[boardId];
+    });
+
+    setLocalSettings({
+      ...localSettings,
+      calendars: remaining,
+      boardCalendars,
+      defaultCalendarId: localSettings.defaultCalendarId === editingCalendar.id
+        ? undefined
+        : localSettings.defaultCalendarId
+    });
+    setEditingCalendarId(remaining[0].id);
+  };
+
+  const toggleWorkDay = (day: number, worked: boolean) => {
+    const workDays = worked
+      ? [...editingCalendar.workDays, day].sort((a, b) => a - b)
+      : editingCalendar.workDays.filter(workDay => workDay !== day);
+    updateCalendar({ workDays });
+  };
+
+  const setBoardCalendar = (boardId: string, calendarId: string) => {
+    const boardCalendars = { ...localSettings.boardCalendars };
+    if (calendarId) {
+      boardCalendars[boardId] = calendarId;
+    } else {
+      delete boardCalendars[boardId];
+    }
+    setLocalSettings({ ...localSettings, calendars, boardCalendars });
+  };
+
+  const mergeHolidays = (added: Array<{ date: string; name?: string }>) => {
+    const byDate = new Map(editingCalendar.holidays.map(holiday => [holiday.date, holiday]));
+    added.forEach(holiday => byDate.set(holiday.date, holiday));
+    updateCalendar({
+      holidays: Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+    });
+  };
+
+  const handleAddHoliday = () => {
+    if (!holidayDate) return;
+    mergeHolidays([{ date: holidayDate, name: holidayName.trim() || undefined }]);
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const handleImportHolidays = async (file?: File) => {
+    setCalendarMessage(null);
+    if (!file) return;
+
+    try {
+      const holidays = workCalendar.parseIcsHolidays(await file.text());
+      if (holidays.length === 0) {
+        setCalendarMessage('No all-day events were found in that file.');
+        return;
+      }
+      mergeHolidays(holidays);
+      setCalendarMessage(`Imported ${holidays.length} holiday${holidays.length !== 1 ? 's' : ''}.`);
+    } catch (err) {
+      setCalendarMessage('The file could not be read.');
+    }
+  };
+
   const handleBoardToggle = (boardId: string, selected: boolean) => {
     const selectedBoards = localSettings.selectedBoards || [];
 
@@ -236,6 +606,44 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
           </BoardList>
         </Section>
 
+        <Section>
+          <SectionTitle>Data Loading</SectionTitle>
+          <FormField>
+            <Label>Maximum items per board</Label>
+            <Input
+              theme={theme}
+              type="number"
+              min={100}
+              step={100}
+              value={localSettings.maxItemsPerBoard || ''}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                maxItemsPerBoard: e.target.value ? parseInt(e.target.value) : undefined
+              })}
+            />
+            <HelpText>Items are fetched 100 at a time until this limit is reached.</HelpText>
+          </FormField>
+
+          <FormField>
+            <Label>Fallback refresh interval (seconds)</Label>
+            <Input
+              theme={theme}
+              type="number"
+              min={0}
+              step={30}
+              value={localSettings.pollIntervalSeconds ?? DEFAULT_POLL_INTERVAL_SECONDS}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                pollIntervalSeconds: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value))
+              })}
+            />
+            <HelpText>
+              Changes made on monday show up immediately; this reload only runs after the
+              board has been quiet for the whole interval. Set to 0 to turn it off.
+            </HelpText>
+          </FormField>
+        </Section>
+
         <Section>
           <SectionTitle>Timeline Configuration</SectionTitle>
           <FormField>
@@ -256,6 +664,15 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
               ))}
             </Select>
           </FormField>
+
+          <FormField>
+            <Label>Date Columns per Board</Label>
+            {mappedBoards.map(renderDateMapping)}
+            <HelpText>
+              Boards that keep start and due dates in separate columns can map them here.
+              Subitems always use their own timeline or date column.
+            </HelpText>
+          </FormField>
         </Section>
 
         <Section>
@@ -320,7 +737,16 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             </Select>
           </FormField>
 
-          {localSettings.sortByColumn && (
+          <FormField>
+            <Label>Columns per Board</Label>
+            {mappedBoards.map(renderColumnMapping)}
+            <HelpText>
+              Override color, group and sort columns for boards whose columns differ.
+              Columns marked "(all boards)" match by title on every board.
+            </HelpText>
+          </FormField>
+
+          {hasSort && (
             <FormField>
               <Label>Sort Direction</Label>
               <Select
@@ -349,6 +775,325 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             />
             Show subitems
           </CheckboxLabel>
+
+          <FormField>
+            <Label>Milestone Flag Column</Label>
+            <Select
+              theme={theme}
+              value={localSettings.milestoneColumn || ''}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                milestoneColumn: e.target.value || undefined
+              })}
+            >
+              <option value="">Only single-date items</option>
+              {milestoneColumns.map(column => (
+                <option key={column.id} value={column.id}>
+                  {column.title}
+                </option>
+              ))}
+            </Select>
+            <HelpText>
+              Items with a date column instead of a timeline are always milestones. Flagged items
+              are drawn as a diamond on their end date.
+            </HelpText>
+          </FormField>
+
+          <CheckboxLabel>
+            <Checkbox
+              theme={theme}
+              type="checkbox"
+              checked={localSettings.showMilestoneLane || false}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                showMilestoneLane: e.target.checked
+              })}
+            />
+            Show milestones in their own lane at the top
+          </CheckboxLabel>
+
+          <CheckboxLabel>
+            <Checkbox
+              theme={theme}
+              type="checkbox"
+              checked={localSettings.showCriticalPath || false}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                showCriticalPath: e.target.checked
+              })}
+            />
+            Highlight critical path
+          </CheckboxLabel>
+        </Section>
+
+        <Section>
+          <SectionTitle>Scheduling</SectionTitle>
+          <FormField>
+            <Label>When a task is moved</Label>
+            <Select
+              theme={theme}
+              value={localSettings.schedulingMode || 'none'}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                schedulingMode: e.target.value as SchedulingMode
+              })}
+            >
+              <option value="none">Leave dependent tasks alone</option>
+              <option value="push">Push dependent tasks later when needed</option>
+              <option value="strict">Move dependent tasks by the same amount (push and pull)</option>
+            </Select>
+            <HelpText>
+              Dependent tasks follow their link type and lag in working days. Affected tasks are previewed before anything is saved.
+            </HelpText>
+          </FormField>
+        </Section>
+
+        <Section>
+          <SectionTitle>Resource View</SectionTitle>
+          <FormField>
+            <Label>People Column</Label>
+            <Select
+              theme={theme}
+              value={localSettings.peopleColumn || ''}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                peopleColumn: e.target.value || undefined
+              })}
+            >
+              <option value="">All people columns</option>
+              {peopleColumns.map(column => (
+                <option key={column.id} value={column.id}>
+                  {column.title}
+                </option>
+              ))}
+            </Select>
+            <HelpText>
+              By default every people column, and every mirror of one, counts as an assignment.
+            </HelpText>
+          </FormField>
+
+          <FormField>
+            <Label>Capacity (tasks per person per day)</Label>
+            <Input
+              theme={theme}
+              type="number"
+              min={1}
+              step={1}
+              value={localSettings.resourceCapacity ?? DEFAULT_RESOURCE_CAPACITY}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                resourceCapacity: e.target.value === '' ? undefined : Math.max(1, parseInt(e.target.value))
+              })}
+            />
+            <HelpText>Days above this are highlighted in the workload histogram.</HelpText>
+          </FormField>
+        </Section>
+
+        <Section>
+          <SectionTitle>Working Calendars</SectionTitle>
+          <FormField>
+            <Label>Calendar</Label>
+            <InlineRow>
+              <Select
+                theme={theme}
+                value={editingCalendar.id}
+                onChange={(e) => setEditingCalendarId(e.target.value)}
+              >
+                {calendars.map(calendar => (
+                  <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                ))}
+              </Select>
+              <Button theme={theme} variant="secondary" onClick={handleAddCalendar}>
+                New
+              </Button>
+              {calendars.length > 1 && (
+                <Button theme={theme} variant="secondary" onClick={handleDeleteCalendar}>
+                  Delete
+                </Button>
+              )}
+            </InlineRow>
+          </FormField>
+
+          <FormField>
+            <Label>Name</Label>
+            <Input
+              theme={theme}
+              type="text"
+              value={editingCalendar.name}
+              onChange={(e) => updateCalendar({ name: e.target.value })}
+            />
+          </FormField>
+
+          <FormField>
+            <Label>Working days</Label>
+            <WeekdayRow>
+              {[1, 2, 3, 4, 5, 6, 0].map(day => (
+                <CheckboxLabel key={day}>
+                  <Checkbox
+                    theme={theme}
+                    type="checkbox"
+                    checked={editingCalendar.workDays.includes(day)}
+                    onChange={(e) => toggleWorkDay(day, e.target.checked)}
+                  />
+                  {WEEKDAY_LABELS[day]}
+                </CheckboxLabel>
+              ))}
+            </WeekdayRow>
+          </FormField>
+
+          <FormField>
+            <Label>Holidays</Label>
+            {editingCalendar.holidays.length > 0 && (
+              <HolidayList theme={theme}>
+                {editingCalendar.holidays.map(holiday => (
+                  <HolidayItem key={holiday.date} theme={theme}>
+                    <span>{moment(holiday.date, 'YYYY-MM-DD').format('ddd, MMM D, YYYY')}</span>
+                    <HolidayName>{holiday.name}</HolidayName>
+                    <RemoveButton
+                      theme={theme}
+                      onClick={() => updateCalendar({
+                        holidays: editingCalendar.holidays.filter(other => other.date !== holiday.date)
+                      })}
+                      aria-label="Remove holiday"
+                    >
+                      ×
+                    </RemoveButton>
+                  </HolidayItem>
+                ))}
+              </HolidayList>
+            )}
+            <InlineRow>
+              <Input
+                theme={theme}
+                type="date"
+                value={holidayDate}
+                onChange={(e) => setHolidayDate(e.target.value)}
+              />
+              <Input
+                theme={theme}
+                type="text"
+                placeholder="Name (optional)"
+                value={holidayName}
+                onChange={(e) => setHolidayName(e.target.value)}
+              />
+              <Button theme={theme} variant="secondary" onClick={handleAddHoliday} disabled={!holidayDate}>
+                Add
+              </Button>
+            </InlineRow>
+          </FormField>
+
+          <FormField>
+            <Label>Import holidays from a calendar file</Label>
+            <FileInput
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => {
+                handleImportHolidays(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <HelpText>{calendarMessage || 'All-day events in an .ics file are added as holidays.'}</HelpText>
+          </FormField>
+
+          <FormField>
+            <Label>Default calendar</Label>
+            <Select
+              theme={theme}
+              value={localSettings.defaultCalendarId || calendars[0].id}
+              onChange={(e) => setLocalSettings({
+                ...localSettings,
+                calendars,
+                defaultCalendarId: e.target.value
+              })}
+            >
+              {calendars.map(calendar => (
+                <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+              ))}
+            </Select>
+          </FormField>
+
+          {calendars.length > 1 && (
+            <FormField>
+              <Label>Calendar per Board</Label>
+              <MappingFields>
+                {mappedBoards.map(board => (
+                  <React.Fragment key={board.id}>
+                    <span>{board.name}</span>
+                    <Select
+                      theme={theme}
+                      value={localSettings.boardCalendars?.[board.id] || ''}
+                      onChange={(e) => setBoardCalendar(board.id, e.target.value)}
+                    >
+                      <option value="">Default calendar</option>
+                      {calendars.map(calendar => (
+                        <option key={calendar.id} value={calendar.id}>{calendar.name}</option>
+                      ))}
+                    </Select>
+                  </React.Fragment>
+                ))}
+              </MappingFields>
+            </FormField>
+          )}
+
+          <HelpText>
+            Durations, drag snapping and the critical path count working days only. Non-working
+            days are shaded in the day view.
+          </HelpText>
+        </Section>
+
+        <Section>
+          <SectionTitle>Baselines</SectionTitle>
+          <FormField>
+            <Label>Compare against</Label>
+            <InlineRow>
+              <Select
+                theme={theme}
+                value={localSettings.baselineId || ''}
+                onChange={(e) => setLocalSettings({
+                  ...localSettings,
+                  baselineId: e.target.value || undefined
+                })}
+              >
+                <option value="">No baseline</option>
+                {baselines.map(baseline => (
+                  <option key={baseline.id} value={baseline.id}>
+                    {baseline.name} ({moment(baseline.createdAt).format('MMM D, YYYY')})
+                  </option>
+                ))}
+              </Select>
+              {localSettings.baselineId && (
+                <Button
+                  theme={theme}
+                  variant="secondary"
+                  onClick={() => handleDeleteBaseline(localSettings.baselineId!)}
+                >
+                  Delete
+                </Button>
+              )}
+            </InlineRow>
+          </FormField>
+
+          <FormField>
+            <Label>Save a new baseline</Label>
+            <InlineRow>
+              <Input
+                theme={theme}
+                type="text"
+                placeholder={`Baseline ${baselines.length + 1}`}
+                value={baselineName}
+                onChange={(e) => setBaselineName(e.target.value)}
+              />
+              <Button
+                theme={theme}
+                variant="secondary"
+                onClick={handleCreateBaseline}
+                disabled={savingBaseline}
+              >
+                {savingBaseline ? 'Saving...' : 'Save'}
+              </Button>
+            </InlineRow>
+            <HelpText>Snapshots the current start and end date of every task on the selected boards.</HelpText>
+          </FormField>
         </Section>
 
         <ButtonGroup>
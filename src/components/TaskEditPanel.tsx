@@ -0,0 +1,477 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components';
+import moment from 'moment';
+import { GanttTask, MondayBoard, MondayColumnValue, MondayUser } from '../types';
+import mondayService from '../services/mondayService';
+import {
+  LONG_TEXT_TYPES,
+  NUMBER_TYPES,
+  PEOPLE_TYPES,
+  STATUS_TYPES,
+  getColumnLabels,
+  parseJson,
+  splitText
+} from '../utils/columnValues';
+
+export interface TaskEditChanges {
+  name?: string;
+  // Values in the JSON shape monday expects for each column type
+  columnValues: { [columnId: string]: any };
+}
+
+interface TaskEditPanelProps {
+  task: GanttTask;
+  // The task's board, for status and dropdown labels; subitem boards aren't loaded
+  board?: MondayBoard;
+  onSave: (task: GanttTask, changes: TaskEditChanges) => Promise<void>;
+  onDelete: (task: GanttTask) => Promise<void>;
+  onClose: () => void;
+  theme: 'light' | 'dark';
+}
+
+const Panel = styled.div<{ theme: 'light' | 'dark' }>`
+  position: fixed;
+  top: 0;
+  right: 0;
+  bottom: 0;
+  z-index: 900;
+  width: 380px;
+  max-width: 90vw;
+  box-sizing: border-box;
+  display: flex;
+  flex-direction: column;
+  background-color: ${props => props.theme === 'dark' ? '#292f3a' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  border-left: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  box-shadow: -4px 0 16px rgba(0, 0, 0, 0.15);
+`;
+
+const Header = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  padding: 16px 20px;
+  border-bottom: 1px solid ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
+`;
+
+const Title = styled.h2`
+  margin: 0;
+  font-size: 18px;
+  font-weight: 600;
+`;
+
+const Subtitle = styled.div`
+  margin-top: 2px;
+  font-size: 12px;
+  opacity: 0.7;
+`;
+
+const CloseButton = styled.button<{ theme: 'light' | 'dark' }>`
+  background: none;
+  border: none;
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#666666'};
+  font-size: 24px;
+  cursor: pointer;
+  padding: 4px;
+  border-radius: 4px;
+
+  &:hover {
+    background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#f5f6f8'};
+  }
+`;
+
+const Body = styled.div`
+  flex: 1;
+  overflow-y: auto;
+  padding: 16px 20px;
+`;
+
+const FormField = styled.div`
+  margin-bottom: 16px;
+`;
+
+const Label = styled.label`
+  display: block;
+  margin-bottom: 6px;
+  font-size: 14px;
+  font-weight: 500;
+`;
+
+const Input = styled.input<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  box-sizing: border-box;
+  padding: 8px 12px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+`;
+
+const TextArea = styled.textarea<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  min-height: 72px;
+  box-sizing: border-box;
+  padding: 8px 12px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-family: inherit;
+  font-size: 14px;
+  resize: vertical;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+`;
+
+const Select = styled.select<{ theme: 'light' | 'dark' }>`
+  width: 100%;
+  padding: 8px 12px;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  background-color: ${props => props.theme === 'dark' ? '#3a4149' : '#ffffff'};
+  color: ${props => props.theme === 'dark' ? '#ffffff' : '#333333'};
+  font-size: 14px;
+
+  &:focus {
+    outline: none;
+    border-color: #037f4c;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+`;
+
+const DateRow = styled.div`
+  display: flex;
+  gap: 8px;
+  align-items: center;
+`;
+
+const OptionList = styled.div<{ theme: 'light' | 'dark' }>`
+  max-height: 160px;
+  overflow-y: auto;
+  border: 1px solid ${props => props.theme === 'dark' ? '#555' : '#ddd'};
+  border-radius: 4px;
+  padding: 8px;
+`;
+
+const CheckboxLabel = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 8px;
+  margin-bottom: 6px;
+  font-size: 14px;
+  cursor: pointer;
+
+  input {
+    accent-color: #037f4c;
+  }
+`;
+
+const ReadOnlyValue = styled.div`
+  font-size: 14px;
+  opacity: 0.8;
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+const HelpText = styled.div`
+  margin-top: 4px;
+  font-size: 12px;
+  opacity: 0.7;
+`;
+
+const Footer = styled.div<{ theme: 'light' | 'dark' }>`
+  display: flex;
+  gap: 12px;
+  padding: 16px 20px;
+  border-top: 1px solid ${props => props.theme === 'dark' ? '#444' : '#e0e0e0'};
+`;
+
+const Spacer = styled.div`
+  flex: 1;
+`;
+
+const Button = styled.button<{ variant?: 'primary' | 'secondary' | 'danger'; theme: 'light' | 'dark' }>`
+  padding: 10px 20px;
+  border: ${props => props.variant === 'primary' || props.variant === 'danger'
+    ? 'none'
+    : `1px solid ${props.theme === 'dark' ? '#555' : '#ddd'}`};
+  border-radius: 4px;
+  background-color: ${props => {
+    if (props.variant === 'primary') return '#037f4c';
+    if (props.variant === 'danger') return '#e2445c';
+    return props.theme === 'dark' ? 'transparent' : '#ffffff';
+  }};
+  color: ${props => {
+    if (props.variant === 'primary' || props.variant === 'danger') return '#ffffff';
+    return props.theme === 'dark' ? '#ffffff' : '#333333';
+  }};
+  font-size: 14px;
+  font-weight: 500;
+  cursor: pointer;
+  transition: all 0.2s ease;
+
+  &:hover {
+    background-color: ${props => {
+      if (props.variant === 'primary') return '#025d38';
+      if (props.variant === 'danger') return '#c53a50';
+      return props.theme === 'dark' ? '#3a4149' : '#f5f6f8';
+    }};
+  }
+
+  &:focus {
+    outline: none;
+    box-shadow: 0 0 0 2px rgba(3, 127, 76, 0.2);
+  }
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+/**
+ * Side panel for editing an item's name and columns in place. Column types
+ * without an editor here (formulas, mirrors, connections...) are shown
+ * read-only. Only changed columns are written back.
+ */
+const TaskEditPanel: React.FC<TaskEditPanelProps> = ({
+  task,
+  board,
+  onSave,
+  onDelete,
+  onClose,
+  theme
+}) => {
+  const item = task.originalItem;
+  const [name, setName] = useState(item.name);
+  const [edits, setEdits] = useState<{ [columnId: string]: any }>({});
+  const [users, setUsers] = useState<MondayUser[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // A different task was opened, or the item was refetched after saving
+  useEffect(() => {
+    setName(item.name);
+    setEdits({});
+  }, [item]);
+
+  const hasPeopleColumns = item.column_values.some(cv => PEOPLE_TYPES.includes(cv.type));
+
+  useEffect(() => {
+    if (hasPeopleColumns && users.length === 0) {
+      mondayService.getUsers().then(setUsers);
+    }
+  }, [hasPeopleColumns]);
+
+  const setEdit = (columnId: string, value: any) => {
+    setEdits(prev => ({ ...prev, [columnId]: value }));
+  };
+
+  const isDirty = name.trim() !== item.name || Object.keys(edits).length > 0;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(task, {
+        name: name.trim() && name.trim() !== item.name ? name.trim() : undefined,
+        columnValues: edits
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setSaving(true);
+    try {
+      await onDelete(task);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderCheckboxList = (column: MondayColumnValue, options: { id: string; name: string }[], selected: string[], toValue: (ids: string[]) => any) => (
+    <OptionList theme={theme}>
+      {options.length === 0 && <ReadOnlyValue>{column.text || '—'}</ReadOnlyValue>}
+      {options.map(option => (
+        <CheckboxLabel key={option.id}>
+          <input
+            type="checkbox"
+            checked={selected.includes(option.id)}
+            onChange={(e) => setEdit(column.id, toValue(e.target.checked
+              ? [...selected, option.id]
+              : selected.filter(id => id !== option.id)))}
+          />
+          {option.name}
+        </CheckboxLabel>
+      ))}
+    </OptionList>
+  );
+
+  const renderEditor = (column: MondayColumnValue) => {
+    const edit = edits[column.id];
+    const isEdited = column.id in edits;
+    const value = parseJson(column.value);
+    const boardColumn = board?.columns.find(c => c.id === column.id);
+
+    if (STATUS_TYPES.includes(column.type)) {
+      const current = isEdited ? edit.label : column.text || '';
+      const labels = getColumnLabels(boardColumn);
+
+      if (labels.length === 0) {
+        return <Input theme={theme} value={current} onChange={(e) => setEdit(column.id, { label: e.target.value })} />;
+      }
+
+      return (
+        <Select theme={theme} value={current} onChange={(e) => setEdit(column.id, { label: e.target.value })}>
+          {!labels.includes(current) && <option value={current}>{current || '(none)'}</option>}
+          {labels.map(label => <option key={label} value={label}>{label}</option>)}
+        </Select>
+      );
+    }
+
+    if (PEOPLE_TYPES.includes(column.type)) {
+      // Only people are listed; assigned teams are written back unchanged
+      const entries: any[] = (isEdited ? edit : value)?.personsAndTeams || [];
+      const teams = entries.filter(entry => entry.kind === 'team');
+      const selected = entries.filter(entry => entry.kind !== 'team').map(entry => String(entry.id));
+
+      return renderCheckboxList(column, users, selected, ids => ({
+        personsAndTeams: [...teams, ...ids.map(id => ({ id: Number(id), kind: 'person' }))]
+      }));
+    }
+
+    if (column.type === 'dropdown') {
+      const labels = getColumnLabels(boardColumn);
+      const selected: string[] = isEdited ? edit.labels : splitText(column.text);
+
+      return renderCheckboxList(
+        column,
+        labels.map(label => ({ id: label, name: label })),
+        selected,
+        names => ({ labels: names })
+      );
+    }
+
+    if (column.type === 'text' || NUMBER_TYPES.includes(column.type)) {
+      return (
+        <Input
+          theme={theme}
+          type={NUMBER_TYPES.includes(column.type) ? 'number' : 'text'}
+          value={isEdited ? edit : column.text || ''}
+          onChange={(e) => setEdit(column.id, e.target.value)}
+        />
+      );
+    }
+
+    if (LONG_TEXT_TYPES.includes(column.type)) {
+      return (
+        <TextArea
+          theme={theme}
+          value={isEdited ? edit.text : column.text || ''}
+          onChange={(e) => setEdit(column.id, { text: e.target.value })}
+        />
+      );
+    }
+
+    if (column.type === 'date') {
+      return (
+        <Input
+          theme={theme}
+          type="date"
+          value={isEdited ? edit.date || '' : value?.date || ''}
+          onChange={(e) => setEdit(column.id, e.target.value ? { date: e.target.value } : {})}
+        />
+      );
+    }
+
+    if (column.type === 'timeline') {
+      const range = isEdited ? edit : { from: value?.from || '', to: value?.to || '' };
+      const setRange = (from: string, to: string) => {
+        // Keep the range ordered so monday accepts it
+        setEdit(column.id, from && to && moment(to).isBefore(from) ? { from: to, to: from } : { from, to });
+      };
+
+      return (
+        <DateRow>
+          <Input theme={theme} type="date" value={range.from} onChange={(e) => setRange(e.target.value, range.to)} />
+          –
+          <Input theme={theme} type="date" value={range.to} onChange={(e) => setRange(range.from, e.target.value)} />
+        </DateRow>
+      );
+    }
+
+    if (column.type === 'checkbox') {
+      const checked = isEdited ? !!edit : value?.checked === true || value?.checked === 'true';
+
+      return (
+        <CheckboxLabel>
+          <input
+            type="checkbox"
+            checked={checked}
+            onChange={(e) => setEdit(column.id, e.target.checked ? { checked: 'true' } : null)}
+          />
+          {checked ? 'Checked' : 'Not checked'}
+        </CheckboxLabel>
+      );
+    }
+
+    return <ReadOnlyValue>{column.text || '—'}</ReadOnlyValue>;
+  };
+
+  return (
+    <Panel theme={theme}>
+      <Header theme={theme}>
+        <div>
+          <Title>Edit item</Title>
+          <Subtitle>{[task.boardName, item.group?.title].filter(Boolean).join(' • ')}</Subtitle>
+        </div>
+        <CloseButton theme={theme} onClick={onClose}>×</CloseButton>
+      </Header>
+
+      <Body>
+        <FormField>
+          <Label>Name</Label>
+          <Input theme={theme} value={name} onChange={(e) => setName(e.target.value)} />
+        </FormField>
+
+        {item.column_values
+          .filter(column => column.type !== 'name' && column.type !== 'subtasks')
+          .map(column => (
+            <FormField key={column.id}>
+              <Label>{column.title || column.id}</Label>
+              {renderEditor(column)}
+              {task.mirrorData?.[column.id] && (
+                <HelpText>Mirrored from {task.mirrorData[column.id].sourceBoardName}</HelpText>
+              )}
+            </FormField>
+          ))}
+      </Body>
+
+      <Footer theme={theme}>
+        <Button theme={theme} variant="danger" onClick={handleDelete} disabled={saving}>
+          Delete
+        </Button>
+        <Spacer />
+        <Button theme={theme} onClick={onClose}>
+          Close
+        </Button>
+        <Button theme={theme} variant="primary" onClick={handleSave} disabled={saving || !isDirty}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </Footer>
+    </Panel>
+  );
+};
+
+export default TaskEditPanel;
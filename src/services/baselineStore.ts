@@ -0,0 +1,79 @@
+import moment from 'moment';
+import { GanttTask, TaskBaseline } from '../types';
+import mondayService from './mondayService';
+
+export interface BaselineVariance {
+  startDays: number;
+  endDays: number;
+}
+
+/**
+ * Named snapshots of task dates, kept in instance storage next to the
+ * widget settings. Positive variances mean the task has slipped.
+ */
+class BaselineStore {
+  private baselines: TaskBaseline[] = [];
+
+  async load(): Promise<TaskBaseline[]> {
+    this.baselines = await mondayService.loadBaselines();
+    return this.baselines;
+  }
+
+  getBaselines(): TaskBaseline[] {
+    return this.baselines;
+  }
+
+  getBaseline(baselineId?: string): TaskBaseline | undefined {
+    return baselineId ? this.baselines.find(baseline => baseline.id === baselineId) : undefined;
+  }
+
+  async createBaseline(name: string, tasks: GanttTask[]): Promise<TaskBaseline> {
+    const baseline: TaskBaseline = {
+      id: `baseline-${Date.now()}`,
+      name,
+      createdAt: new Date().toISOString(),
+      tasks: {}
+    };
+
+    tasks.forEach(task => {
+      if (!task.startDate || !task.endDate) return;
+      baseline.tasks[task.id] = {
+        start: moment(task.startDate).format('YYYY-MM-DD'),
+        end: moment(task.endDate).format('YYYY-MM-DD')
+      };
+    });
+
+    const baselines = [...this.baselines, baseline];
+    await mondayService.saveBaselines(baselines);
+    this.baselines = baselines;
+
+    return baseline;
+  }
+
+  async deleteBaseline(baselineId: string): Promise<void> {
+    const baselines = this.baselines.filter(baseline => baseline.id !== baselineId);
+    await mondayService.saveBaselines(baselines);
+    this.baselines = baselines;
+  }
+
+  getTaskDates(baseline: TaskBaseline, taskId: string): { startDate: Date; endDate: Date } | null {
+    const dates = baseline.tasks[taskId];
+    if (!dates) return null;
+
+    return {
+      startDate: moment(dates.start, 'YYYY-MM-DD').toDate(),
+      endDate: moment(dates.end, 'YYYY-MM-DD').toDate()
+    };
+  }
+
+  getVariance(task: GanttTask, baselineDates: { startDate: Date; endDate: Date }): BaselineVariance | null {
+    if (!task.startDate || !task.endDate) return null;
+
+    return {
+      startDays: moment(task.startDate).startOf('day').diff(moment(baselineDates.startDate), 'days'),
+      endDays: moment(task.endDate).startOf('day').diff(moment(baselineDates.endDate), 'days')
+    };
+  }
+}
+
+export default new BaselineStore();
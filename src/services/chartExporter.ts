@@ -0,0 +1,421 @@
+import { jsPDF } from 'jspdf';
+import moment from 'moment';
+import { GanttTask, WorkCalendar, ZoomLevel } from '../types';
+import criticalPath from './criticalPath';
+import workCalendar from './workCalendar';
+import { ChartRow, buildChartRows, splitMilestones } from '../utils/chartLayout';
+import {
+  BAR_HEIGHT,
+  BAR_TOP,
+  BarGeometry,
+  ROW_HEIGHT,
+  TASK_LIST_WIDTH,
+  buildDependencyPath,
+  getTaskGeometry
+} from '../utils/layout';
+import {
+  ChartRange,
+  DEFAULT_ZOOM_LEVEL,
+  ZOOM_LEVELS,
+  buildHeaderCells,
+  getChartRange,
+  getTimelineWidth
+} from '../utils/timeScale';
+import { buildExportFilename, downloadBlob } from '../utils/download';
+import { escapeXml } from '../utils/xml';
+
+export interface ChartExportOptions {
+  title: string;
+  theme: 'light' | 'dark';
+  zoomLevel?: ZoomLevel;
+  showCriticalPath?: boolean;
+  showMilestoneLane?: boolean;
+  includeLegend?: boolean;
+  legendTitle?: string;
+  calendar?: WorkCalendar;
+}
+
+interface RenderedChart {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface ChartModel {
+  rows: ChartRow[];
+  laneMilestones: GanttTask[];
+  range: ChartRange;
+  width: number;
+  criticalTaskIds: Set<string>;
+  legend: Array<{ label: string; color: string }>;
+}
+
+const PALETTES = {
+  light: {
+    background: '#ffffff',
+    text: '#333333',
+    mutedText: '#666666',
+    headerBackground: '#f5f6f8',
+    primaryTierBackground: '#ffffff',
+    nonWorkingDay: '#f8f9fa',
+    border: '#e0e0e0',
+    arrow: '#676879'
+  },
+  dark: {
+    background: '#292f3a',
+    text: '#ffffff',
+    mutedText: '#999999',
+    headerBackground: '#3a4149',
+    primaryTierBackground: '#2a3038',
+    nonWorkingDay: '#3a4149',
+    border: '#444444',
+    arrow: '#8a93a6'
+  }
+};
+
+const FONT_FAMILY = 'Figtree, -apple-system, BlinkMacSystemFont, Segoe UI, Roboto, Helvetica, Arial, sans-serif';
+const TITLE_HEIGHT = 56;
+const LEGEND_ROW_HEIGHT = 22;
+const HEADER_TIER_HEIGHT = 32;
+const CRITICAL_COLOR = '#e2445c';
+// Most browsers refuse to allocate canvases much beyond this on either side
+const MAX_CANVAS_DIMENSION = 16384;
+const PDF_MARGIN = 24;
+
+const truncate = (value: string, maxLength: number): string =>
+  value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+
+/**
+ * Renders the chart as a standalone SVG from the same layout helpers the
+ * on-screen chart uses, so exports match the current zoom, filters, grouping
+ * and theme without depending on what happens to be scrolled into view.
+ */
+class ChartExporter {
+  async exportSvg(tasks: GanttTask[], options: ChartExportOptions): Promise<void> {
+    const model = this.buildModel(tasks, options);
+    const rendered = this.renderSvg(model, options, 0, model.rows.length);
+    downloadBlob(new Blob([rendered.svg], { type: 'image/svg+xml' }), buildExportFilename('svg'));
+  }
+
+  async exportPng(tasks: GanttTask[], options: ChartExportOptions): Promise<void> {
+    const model = this.buildModel(tasks, options);
+    const rendered = this.renderSvg(model, options, 0, model.rows.length);
+    const scale = Math.min(2, MAX_CANVAS_DIMENSION / rendered.width, MAX_CANVAS_DIMENSION / rendered.height);
+    const canvas = await this.renderToCanvas(rendered, scale);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) {
+      throw new Error('The browser could not encode the chart as PNG');
+    }
+    downloadBlob(blob, buildExportFilename('png'));
+  }
+
+  /**
+   * Splits rows across landscape pages, repeating the title, legend and
+   * timeline header on each page. Wide charts are scaled to the page width.
+   */
+  async exportPdf(tasks: GanttTask[], options: ChartExportOptions): Promise<void> {
+    const model = this.buildModel(tasks, options);
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+
+    const pageWidth = pdf.internal.pageSize.getWidth() - PDF_MARGIN * 2;
+    const pageHeight = pdf.internal.pageSize.getHeight() - PDF_MARGIN * 2;
+    const scale = Math.min(1, pageWidth / model.width);
+    const chromeHeight = this.getChromeHeight(model, options);
+    const rowsPerPage = Math.max(1, Math.floor((pageHeight / scale - chromeHeight) / ROW_HEIGHT));
+
+    for (let firstRow = 0, page = 0; firstRow < Math.max(model.rows.length, 1); firstRow += rowsPerPage, page++) {
+      const rendered = this.renderSvg(model, options, firstRow, firstRow + rowsPerPage);
+      const canvasScale = Math.min(2, MAX_CANVAS_DIMENSION / rendered.width, MAX_CANVAS_DIMENSION / rendered.height);
+      const canvas = await this.renderToCanvas(rendered, canvasScale);
+
+      if (page > 0) {
+        pdf.addPage();
+      }
+      pdf.addImage(
+        canvas.toDataURL('image/png'),
+        'PNG',
+        PDF_MARGIN,
+        PDF_MARGIN,
+        rendered.width * scale,
+        rendered.height * scale
+      );
+    }
+
+    downloadBlob(pdf.output('blob'), buildExportFilename('pdf'));
+  }
+
+  private buildModel(tasks: GanttTask[], options: ChartExportOptions): ChartModel {
+    const validTasks = tasks.filter(task => task.startDate && task.endDate);
+    const { milestones: laneMilestones, tasks: rowTasks } = options.showMilestoneLane
+      ? splitMilestones(validTasks)
+      : { milestones: [], tasks: validTasks };
+    const rows = buildChartRows(rowTasks);
+
+    let minTime = Date.now();
+    let maxTime = Date.now();
+    if (validTasks.length > 0) {
+      minTime = Math.min(...validTasks.map(task => task.startDate!.getTime()));
+      maxTime = Math.max(...validTasks.map(task => task.endDate!.getTime()));
+    }
+
+    // No viewport to fill, so use the zoom level's natural day width
+    const range = getChartRange(new Date(minTime), new Date(maxTime), options.zoomLevel || DEFAULT_ZOOM_LEVEL, 0);
+
+    const criticalTaskIds = new Set<string>();
+    if (options.showCriticalPath) {
+      const schedule = criticalPath.analyze(validTasks, options.calendar);
+      Object.keys(schedule).forEach(taskId => {
+        if (schedule[taskId].isCritical) criticalTaskIds.add(taskId);
+      });
+    }
+
+    const legend: Array<{ label: string; color: string }> = [];
+    const seen = new Set<string>();
+    validTasks.forEach(task => {
+      const label = task.colorLabel || '';
+      const color = task.color || '#037f4c';
+      const key = `${label}|${color}`;
+      if (!label || seen.has(key)) return;
+      seen.add(key);
+      legend.push({ label, color });
+    });
+
+    return {
+      rows,
+      laneMilestones,
+      range,
+      width: TASK_LIST_WIDTH + getTimelineWidth(range),
+      criticalTaskIds,
+      legend
+    };
+  }
+
+  private getLegendRows(model: ChartModel, options: ChartExportOptions): Array<Array<{ label: string; color: string; x: number }>> {
+    if (!options.includeLegend || model.legend.length === 0) return [];
+
+    const rows: Array<Array<{ label: string; color: string; x: number }>> = [[]];
+    let x = 16;
+
+    model.legend.forEach(entry => {
+      // Rough text measurement; exact widths would need a canvas context
+      const entryWidth = 18 + truncate(entry.label, 40).length * 7 + 16;
+      if (x + entryWidth > model.width - 16 && rows[rows.length - 1].length > 0) {
+        rows.push([]);
+        x = 16;
+      }
+      rows[rows.length - 1].push({ ...entry, x });
+      x += entryWidth;
+    });
+
+    return rows;
+  }
+
+  private getChromeHeight(model: ChartModel, options: ChartExportOptions): number {
+    const tiers = ZOOM_LEVELS[options.zoomLevel || DEFAULT_ZOOM_LEVEL].tiers;
+    const legendRows = this.getLegendRows(model, options);
+    const legendHeight = legendRows.length > 0 ? legendRows.length * LEGEND_ROW_HEIGHT + 8 : 0;
+    const laneHeight = model.laneMilestones.length > 0 ? ROW_HEIGHT : 0;
+    return TITLE_HEIGHT + legendHeight + tiers.length * HEADER_TIER_HEIGHT + laneHeight;
+  }
+
+  private renderSvg(model: ChartModel, options: ChartExportOptions, firstRow: number, endRow: number): RenderedChart {
+    const palette = PALETTES[options.theme];
+    const tiers = ZOOM_LEVELS[options.zoomLevel || DEFAULT_ZOOM_LEVEL].tiers;
+    const rows = model.rows.slice(firstRow, endRow);
+    const legendRows = this.getLegendRows(model, options);
+    const legendTop = TITLE_HEIGHT;
+    const laneHeight = model.laneMilestones.length > 0 ? ROW_HEIGHT : 0;
+    const headerTop = this.getChromeHeight(model, options) - tiers.length * HEADER_TIER_HEIGHT - laneHeight;
+    const laneTop = headerTop + tiers.length * HEADER_TIER_HEIGHT;
+    const bodyTop = laneTop + laneHeight;
+    const width = model.width;
+    const height = bodyTop + rows.length * ROW_HEIGHT;
+    const { range } = model;
+    const parts: string[] = [];
+
+    parts.push(`<rect x="0" y="0" width="${width}" height="${height}" fill="${palette.background}"/>`);
+
+    // Title and date stamp
+    parts.push(
+      `<text x="16" y="30" font-size="18" font-weight="600" fill="${palette.text}">${escapeXml(options.title)}</text>`,
+      `<text x="16" y="48" font-size="12" fill="${palette.mutedText}">Exported ${escapeXml(moment().format('MMM D, YYYY h:mm A'))}</text>`
+    );
+
+    // Legend
+    if (legendRows.length > 0) {
+      if (options.legendTitle) {
+        parts.push(`<text x="${width - 16}" y="30" font-size="12" text-anchor="end" fill="${palette.mutedText}">Color: ${escapeXml(options.legendTitle)}</text>`);
+      }
+      legendRows.forEach((legendRow, index) => {
+        const y = legendTop + index * LEGEND_ROW_HEIGHT;
+        legendRow.forEach(entry => {
+          parts.push(
+            `<rect x="${entry.x}" y="${y + 4}" width="12" height="12" rx="2" fill="${entry.color}"/>`,
+            `<text x="${entry.x + 18}" y="${y + 14}" font-size="12" fill="${palette.text}">${escapeXml(truncate(entry.label, 40))}</text>`
+          );
+        });
+      });
+    }
+
+    // Timeline header
+    parts.push(`<rect x="0" y="${headerTop}" width="${width}" height="${tiers.length * HEADER_TIER_HEIGHT}" fill="${palette.headerBackground}"/>`);
+    parts.push(`<text x="16" y="${headerTop + tiers.length * HEADER_TIER_HEIGHT / 2 + 5}" font-size="14" font-weight="600" fill="${palette.text}">Tasks</text>`);
+
+    tiers.forEach((tier, tierIndex) => {
+      const isPrimary = tierIndex < tiers.length - 1 || tiers.length === 1;
+      const y = headerTop + tierIndex * HEADER_TIER_HEIGHT;
+
+      if (isPrimary) {
+        parts.push(`<rect x="${TASK_LIST_WIDTH}" y="${y}" width="${width - TASK_LIST_WIDTH}" height="${HEADER_TIER_HEIGHT}" fill="${palette.primaryTierBackground}"/>`);
+      }
+
+      const calendar = options.calendar;
+      const cells = calendar
+        ? buildHeaderCells(tier, range, date => workCalendar.isWorkingDay(calendar, date))
+        : buildHeaderCells(tier, range);
+
+      cells.forEach(cell => {
+        const x = TASK_LIST_WIDTH + cell.left;
+        if (cell.isNonWorkingDay) {
+          parts.push(`<rect x="${x}" y="${y}" width="${cell.width}" height="${HEADER_TIER_HEIGHT}" fill="${palette.nonWorkingDay}"/>`);
+        }
+        parts.push(`<line x1="${x + cell.width}" y1="${y}" x2="${x + cell.width}" y2="${y + HEADER_TIER_HEIGHT}" stroke="${palette.border}"/>`);
+        if (cell.label) {
+          parts.push(
+            `<text x="${x + cell.width / 2}" y="${y + 20}" font-size="${isPrimary ? 13 : 12}" font-weight="${isPrimary ? 600 : 400}" text-anchor="middle" fill="${cell.isNonWorkingDay ? palette.mutedText : palette.text}">${escapeXml(cell.label)}</text>`
+          );
+        }
+      });
+    });
+    parts.push(`<line x1="0" y1="${laneTop}" x2="${width}" y2="${laneTop}" stroke="${palette.border}" stroke-width="2"/>`);
+
+    // Milestone lane, repeated on every page like the header
+    if (laneHeight > 0) {
+      parts.push(
+        `<line x1="0" y1="${laneTop + ROW_HEIGHT}" x2="${width}" y2="${laneTop + ROW_HEIGHT}" stroke="${palette.border}" stroke-width="2"/>`,
+        `<text x="16" y="${laneTop + 17}" font-size="14" font-weight="500" fill="${palette.text}">Milestones</text>`,
+        `<text x="16" y="${laneTop + 33}" font-size="12" fill="${palette.mutedText}">${model.laneMilestones.length} milestone${model.laneMilestones.length !== 1 ? 's' : ''}</text>`
+      );
+      model.laneMilestones.forEach(task => {
+        const geometry = getTaskGeometry(task, range.start, range.dayWidth);
+        parts.push(...this.renderTaskShape(task, geometry, laneTop, model.criticalTaskIds.has(task.id), palette.text));
+      });
+    }
+
+    // Task rows and bars
+    const geometries = new Map<string, BarGeometry>();
+    const rowIndex = new Map<string, number>();
+
+    rows.forEach((row, index) => {
+      const { task } = row;
+      const y = bodyTop + index * ROW_HEIGHT;
+      const isSubtask = row.depth > 0;
+      const textX = 16 + row.depth * 16;
+      const geometry = getTaskGeometry(task, range.start, range.dayWidth);
+      geometries.set(task.id, geometry);
+      rowIndex.set(task.id, index);
+
+      parts.push(`<line x1="0" y1="${y + ROW_HEIGHT}" x2="${width}" y2="${y + ROW_HEIGHT}" stroke="${palette.border}"/>`);
+      parts.push(
+        `<text x="${textX}" y="${y + 17}" font-size="${isSubtask ? 13 : 14}" font-weight="${isSubtask ? 400 : 500}" fill="${isSubtask ? palette.mutedText : palette.text}">${escapeXml(truncate(task.name, 34))}</text>`,
+        `<text x="${textX}" y="${y + 33}" font-size="12" fill="${palette.mutedText}">${escapeXml(truncate(`${task.boardName || ''} • ${row.groupName}`, 40))}</text>`
+      );
+
+      parts.push(...this.renderTaskShape(task, geometry, y, model.criticalTaskIds.has(task.id), palette.text));
+    });
+
+    // Dependency arrows between rows on this page
+    const arrowParts: string[] = [];
+    rows.forEach(({ task }) => {
+      (task.dependencies || []).forEach(dependency => {
+        const predecessorRow = rowIndex.get(dependency.predecessorId);
+        if (predecessorRow === undefined) return;
+
+        const isCritical = model.criticalTaskIds.has(task.id) && model.criticalTaskIds.has(dependency.predecessorId);
+        const path = buildDependencyPath(
+          geometries.get(dependency.predecessorId)!,
+          predecessorRow,
+          geometries.get(task.id)!,
+          rowIndex.get(task.id)!,
+          dependency.type
+        );
+        arrowParts.push(`<path d="${path}" fill="none" stroke="${isCritical ? CRITICAL_COLOR : palette.arrow}" stroke-width="${isCritical ? 2 : 1.5}" marker-end="url(#${isCritical ? 'arrow-critical' : 'arrow'})"/>`);
+      });
+    });
+
+    if (arrowParts.length > 0) {
+      parts.push(
+        `<defs>` +
+        `<marker id="arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto"><path d="M 0 0 L 8 4 L 0 8 z" fill="${palette.arrow}"/></marker>` +
+        `<marker id="arrow-critical" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto"><path d="M 0 0 L 8 4 L 0 8 z" fill="${CRITICAL_COLOR}"/></marker>` +
+        `</defs>`,
+        `<g transform="translate(${TASK_LIST_WIDTH}, ${bodyTop})">${arrowParts.join('')}</g>`
+      );
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">${parts.join('')}</svg>`;
+
+    return { svg, width, height };
+  }
+
+  // A bar, or a diamond with its label beside it for milestones
+  private renderTaskShape(
+    task: GanttTask,
+    geometry: BarGeometry,
+    rowTop: number,
+    isCritical: boolean,
+    labelColor: string
+  ): string[] {
+    const barX = TASK_LIST_WIDTH + geometry.left;
+    const barY = rowTop + BAR_TOP;
+    const color = task.color || '#037f4c';
+    const stroke = isCritical ? ` stroke="${CRITICAL_COLOR}" stroke-width="2"` : '';
+
+    if (task.isMilestone) {
+      const centerX = barX + geometry.width / 2;
+      const centerY = barY + BAR_HEIGHT / 2;
+      const half = geometry.width / 2;
+      return [
+        `<polygon points="${centerX},${centerY - half} ${centerX + half},${centerY} ${centerX},${centerY + half} ${centerX - half},${centerY}" fill="${color}"${stroke}/>`,
+        `<text x="${barX + geometry.width + 6}" y="${centerY + 4}" font-size="11" font-weight="500" fill="${labelColor}">${escapeXml(truncate(task.name, 40))}</text>`
+      ];
+    }
+
+    const parts = [`<rect x="${barX}" y="${barY}" width="${geometry.width}" height="${BAR_HEIGHT}" rx="4" fill="${color}"${stroke}/>`];
+    if (task.progress && task.progress > 0) {
+      parts.push(`<rect x="${barX}" y="${barY}" width="${geometry.width * task.progress / 100}" height="${BAR_HEIGHT}" rx="4" fill="rgba(255, 255, 255, 0.3)"/>`);
+    }
+    if (geometry.width > 60) {
+      const maxChars = Math.floor((geometry.width - 16) / 6);
+      parts.push(`<text x="${barX + 8}" y="${barY + 16}" font-size="11" font-weight="500" fill="#ffffff">${escapeXml(truncate(task.name, maxChars))}</text>`);
+    }
+    return parts;
+  }
+
+  private renderToCanvas(rendered: RenderedChart, scale: number): Promise<HTMLCanvasElement> {
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+
+      image.onload = () => {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(rendered.width * scale);
+        canvas.height = Math.ceil(rendered.height * scale);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas is not available'));
+          return;
+        }
+
+        context.scale(scale, scale);
+        context.drawImage(image, 0, 0);
+        resolve(canvas);
+      };
+      image.onerror = () => reject(new Error('Failed to render chart image'));
+      image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(rendered.svg)}`;
+    });
+  }
+}
+
+export default new ChartExporter();
@@ -0,0 +1,95 @@
+export interface Command {
+  // Shown in the undo/redo button tooltips, e.g. "Move Design review"
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+const MAX_COMMANDS = 100;
+
+/**
+ * Undo/redo stacks for edits made from the chart. Commands write to monday
+ * themselves; the history only orders them and keeps one running at a time.
+ *
+ * Undoing a deletion recreates the item under a new id. The old id is
+ * aliased to the new one so older commands can still find the item through
+ * resolveId.
+ */
+class CommandHistory {
+  private undoStack: Command[] = [];
+  private redoStack: Command[] = [];
+  private aliases = new Map<string, string>();
+  private running = false;
+
+  record(command: Command): void {
+    this.undoStack = [...this.undoStack, command].slice(-MAX_COMMANDS);
+    this.redoStack = [];
+  }
+
+  canUndo(): boolean {
+    return !this.running && this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return !this.running && this.redoStack.length > 0;
+  }
+
+  getUndoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
+  }
+
+  getRedoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
+  }
+
+  /**
+   * Undoes the latest command and returns it, or null when there is nothing
+   * to undo. A command that fails is dropped, so it doesn't block the ones
+   * before it, and the error is rethrown.
+   */
+  async undo(): Promise<Command | null> {
+    if (!this.canUndo()) return null;
+
+    const command = this.undoStack.pop()!;
+    await this.run(() => command.undo());
+    this.redoStack.push(command);
+    return command;
+  }
+
+  async redo(): Promise<Command | null> {
+    if (!this.canRedo()) return null;
+
+    const command = this.redoStack.pop()!;
+    await this.run(() => command.redo());
+    this.undoStack.push(command);
+    return command;
+  }
+
+  aliasId(oldId: string, newId: string): void {
+    this.aliases.set(oldId, newId);
+  }
+
+  // Follows aliases, since an item can be recreated more than once
+  resolveId(itemId: string): string {
+    let resolved = itemId;
+    const seen = new Set<string>();
+
+    while (this.aliases.has(resolved) && !seen.has(resolved)) {
+      seen.add(resolved);
+      resolved = this.aliases.get(resolved)!;
+    }
+
+    return resolved;
+  }
+
+  private async run(action: () => Promise<void>): Promise<void> {
+    this.running = true;
+    try {
+      await action();
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export default new CommandHistory();
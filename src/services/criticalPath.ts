@@ -0,0 +1,197 @@
+import { GanttTask, TaskDependency, TaskSchedule, WorkCalendar } from '../types';
+import workCalendar, { STANDARD_CALENDAR } from './workCalendar';
+
+interface ScheduleNode {
+  task: GanttTask;
+  duration: number;
+  startOffset: number;
+  earlyStart: number;
+  earlyFinish: number;
+  lateStart: number;
+  lateFinish: number;
+}
+
+interface Link {
+  predecessorId: string;
+  successorId: string;
+  dependency: TaskDependency;
+}
+
+/**
+ * Classic CPM forward/backward pass over the dependency network. Offsets are
+ * working days of the given calendar from the earliest task start, lags are
+ * working days too, and finish offsets are exclusive (a one-day task
+ * starting at day 0 finishes at day 1).
+ */
+class CriticalPathAnalyzer {
+  analyze(tasks: GanttTask[], calendar: WorkCalendar = STANDARD_CALENDAR): { [taskId: string]: TaskSchedule } {
+    const scheduledTasks = tasks.filter(task => task.startDate && task.endDate);
+    if (scheduledTasks.length === 0) return {};
+
+    const origin = workCalendar.snapToWorkingDay(calendar,
+      scheduledTasks.reduce((min, task) =>
+        task.startDate!.getTime() < min.getTime() ? task.startDate! : min,
+        scheduledTasks[0].startDate!
+      )
+    );
+
+    const nodes = new Map<string, ScheduleNode>();
+    scheduledTasks.forEach(task => {
+      const startOffset = workCalendar.workingDaysBetween(calendar, origin, task.startDate);
+      const duration = Math.max(1, workCalendar.countWorkingDays(calendar, task.startDate, task.endDate));
+      nodes.set(task.id, {
+        task,
+        duration,
+        startOffset,
+        earlyStart: startOffset,
+        earlyFinish: startOffset + duration,
+        lateStart: 0,
+        lateFinish: 0
+      });
+    });
+
+    const links = this.collectLinks(scheduledTasks, nodes);
+    const order = this.topologicalOrder(scheduledTasks, links);
+
+    const incoming = new Map<string, Link[]>();
+    const outgoing = new Map<string, Link[]>();
+    links.forEach(link => {
+      incoming.set(link.successorId, [...(incoming.get(link.successorId) || []), link]);
+      outgoing.set(link.predecessorId, [...(outgoing.get(link.predecessorId) || []), link]);
+    });
+
+    // Forward pass: a task starts no earlier than its scheduled date or any predecessor allows
+    const visited = new Set<string>();
+    order.forEach(taskId => {
+      const node = nodes.get(taskId)!;
+      let earlyStart = node.startOffset;
+
+      (incoming.get(taskId) || []).forEach(link => {
+        if (!visited.has(link.predecessorId)) return;
+        const predecessor = nodes.get(link.predecessorId)!;
+        const lag = link.dependency.lagDays || 0;
+
+        switch (link.dependency.type) {
+          case 'FS':
+            earlyStart = Math.max(earlyStart, predecessor.earlyFinish + lag);
+            break;
+          case 'SS':
+            earlyStart = Math.max(earlyStart, predecessor.earlyStart + lag);
+            break;
+          case 'FF':
+            earlyStart = Math.max(earlyStart, predecessor.earlyFinish + lag - node.duration);
+            break;
+          case 'SF':
+            earlyStart = Math.max(earlyStart, predecessor.earlyStart + lag - node.duration);
+            break;
+        }
+      });
+
+      node.earlyStart = earlyStart;
+      node.earlyFinish = earlyStart + node.duration;
+      visited.add(taskId);
+    });
+
+    const projectFinish = Math.max(...Array.from(nodes.values()).map(node => node.earlyFinish));
+
+    // Backward pass: a task finishes no later than the project end or any successor allows
+    visited.clear();
+    [...order].reverse().forEach(taskId => {
+      const node = nodes.get(taskId)!;
+      let lateFinish = projectFinish;
+
+      (outgoing.get(taskId) || []).forEach(link => {
+        if (!visited.has(link.successorId)) return;
+        const successor = nodes.get(link.successorId)!;
+        const lag = link.dependency.lagDays || 0;
+
+        switch (link.dependency.type) {
+          case 'FS':
+            lateFinish = Math.min(lateFinish, successor.lateStart - lag);
+            break;
+          case 'SS':
+            lateFinish = Math.min(lateFinish, successor.lateStart - lag + node.duration);
+            break;
+          case 'FF':
+            lateFinish = Math.min(lateFinish, successor.lateFinish - lag);
+            break;
+          case 'SF':
+            lateFinish = Math.min(lateFinish, successor.lateFinish - lag + node.duration);
+            break;
+        }
+      });
+
+      node.lateFinish = lateFinish;
+      node.lateStart = lateFinish - node.duration;
+      visited.add(taskId);
+    });
+
+    const toDate = (offset: number) => workCalendar.addWorkingDays(calendar, origin, offset);
+    const result: { [taskId: string]: TaskSchedule } = {};
+
+    nodes.forEach((node, taskId) => {
+      const totalFloat = node.lateStart - node.earlyStart;
+      result[taskId] = {
+        earlyStart: toDate(node.earlyStart),
+        earlyFinish: toDate(node.earlyFinish - 1),
+        lateStart: toDate(node.lateStart),
+        lateFinish: toDate(node.lateFinish - 1),
+        totalFloat,
+        isCritical: totalFloat <= 0
+      };
+    });
+
+    return result;
+  }
+
+  private collectLinks(tasks: GanttTask[], nodes: Map<string, ScheduleNode>): Link[] {
+    const links: Link[] = [];
+
+    tasks.forEach(task => {
+      (task.dependencies || []).forEach(dependency => {
+        if (dependency.predecessorId === task.id || !nodes.has(dependency.predecessorId)) return;
+        links.push({ predecessorId: dependency.predecessorId, successorId: task.id, dependency });
+      });
+    });
+
+    return links;
+  }
+
+  // Kahn's algorithm; tasks caught in a cycle are appended in their original
+  // order and only see the links that were already resolved.
+  private topologicalOrder(tasks: GanttTask[], links: Link[]): string[] {
+    const inDegree = new Map<string, number>();
+    const successors = new Map<string, string[]>();
+
+    tasks.forEach(task => inDegree.set(task.id, 0));
+    links.forEach(link => {
+      inDegree.set(link.successorId, (inDegree.get(link.successorId) || 0) + 1);
+      successors.set(link.predecessorId, [...(successors.get(link.predecessorId) || []), link.successorId]);
+    });
+
+    const queue = tasks.filter(task => inDegree.get(task.id) === 0).map(task => task.id);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+      const taskId = queue.shift()!;
+      order.push(taskId);
+
+      (successors.get(taskId) || []).forEach(successorId => {
+        const remaining = (inDegree.get(successorId) || 0) - 1;
+        inDegree.set(successorId, remaining);
+        if (remaining === 0) queue.push(successorId);
+      });
+    }
+
+    if (order.length < tasks.length) {
+      const ordered = new Set(order);
+      tasks.forEach(task => {
+        if (!ordered.has(task.id)) order.push(task.id);
+      });
+    }
+
+    return order;
+  }
+}
+
+export default new CriticalPathAnalyzer();
@@ -1,14 +1,29 @@
 import {
+  AvailableColumn,
+  BoardColumnMapping,
+  BoardDateMapping,
   MondayItem,
   MondayBoard,
+  MondayColumn,
   GanttTask,
   GanttSettings,
   MondayColumnValue,
   TimelineData,
-  MirrorColumnMapping
+  TaskDateSource,
+  MirrorColumnMapping,
+  DependencyType,
+  TaskAssignee,
+  TaskDependency,
+  WorkCalendar
 } from '../types';
+import filterEngine from './filterEngine';
+import workCalendar from './workCalendar';
+import { resolveBoardColumnId, resolveItemColumnId, toSemanticColumnId } from '../utils/columnResolver';
+import { rollUpTasks } from '../utils/chartLayout';
 import moment from 'moment';
 
+const PEOPLE_COLUMN_TYPES = ['people', 'multiple_person'];
+
 class DataProcessor {
   private boards: MondayBoard[] = [];
   private allItems: { [boardId: string]: MondayItem[] } = {};
@@ -26,6 +41,116 @@ class DataProcessor {
     this.mirrorMappings = mappings;
   }
 
+  /**
+   * Replaces cached items with freshly fetched copies, or adds them if they're
+   * new. Subitems are matched under their parent item.
+   */
+  upsertItems(boardId: string, items: MondayItem[]): void {
+    const boardItems = [...(this.allItems[boardId] || [])];
+
+    items.forEach(item => {
+      const parentId = item.parent_item?.id;
+
+      if (parentId) {
+        const parentIndex = boardItems.findIndex(candidate => candidate.id === parentId);
+        if (parentIndex === -1) return;
+
+        const parent = boardItems[parentIndex];
+        const subitems = parent.subitems || [];
+        boardItems[parentIndex] = {
+          ...parent,
+          subitems: subitems.some(sub => sub.id === item.id)
+            ? subitems.map(sub => sub.id === item.id ? item : sub)
+            : [...subitems, item]
+        };
+        return;
+      }
+
+      const index = boardItems.findIndex(candidate => candidate.id === item.id);
+      if (index === -1) {
+        boardItems.push(item);
+      } else {
+        boardItems[index] = item;
+      }
+    });
+
+    this.allItems = { ...this.allItems, [boardId]: boardItems };
+  }
+
+  removeItems(itemIds: string[]): void {
+    const ids = new Set(itemIds);
+    const updated: { [boardId: string]: MondayItem[] } = {};
+
+    Object.entries(this.allItems).forEach(([boardId, items]) => {
+      updated[boardId] = items
+        .filter(item => !ids.has(item.id))
+        .map(item => item.subitems?.some(sub => ids.has(sub.id))
+          ? { ...item, subitems: item.subitems.filter(sub => !ids.has(sub.id)) }
+          : item);
+    });
+
+    this.allItems = updated;
+  }
+
+  hasItem(itemId: string): boolean {
+    return !!this.findItem(itemId);
+  }
+
+  getItemBoardId(itemId: string): string | undefined {
+    return Object.keys(this.allItems).find(boardId =>
+      this.allItems[boardId].some(item =>
+        item.id === itemId || item.subitems?.some(sub => sub.id === itemId)
+      )
+    );
+  }
+
+  patchItemColumnValue(itemId: string, columnId: string, value: any): void {
+    const item = this.findItem(itemId);
+    if (!item) return;
+
+    item.column_values = item.column_values.map(cv =>
+      cv.id === columnId ? { ...cv, value: JSON.stringify(value) } : cv
+    );
+  }
+
+  private findItem(itemId: string): MondayItem | undefined {
+    for (const items of Object.values(this.allItems)) {
+      for (const item of items) {
+        if (item.id === itemId) return item;
+        const subitem = item.subitems?.find(sub => sub.id === itemId);
+        if (subitem) return subitem;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * The columns a new item on this board gets its dates in: the board's
+   * date mapping, else the configured timeline column, else the board's
+   * first timeline or date column.
+   */
+  getNewItemDateSource(boardId: string, settings: GanttSettings): TaskDateSource | null {
+    const board = this.boards.find(b => b.id === boardId);
+    if (!board) return null;
+
+    const mapping = settings.boardDateMappings?.[boardId];
+    if (mapping?.mode === 'start_end' && mapping.startColumn && mapping.endColumn) {
+      return { columnId: mapping.startColumn, columnType: 'date', endColumnId: mapping.endColumn };
+    }
+    if (mapping?.mode === 'start_duration' && mapping.startColumn && mapping.durationColumn) {
+      return { columnId: mapping.startColumn, columnType: 'date', durationColumnId: mapping.durationColumn };
+    }
+
+    const columns = board.columns.filter(column => !column.archived);
+    const timelineColumnId = resolveBoardColumnId(board, mapping?.timelineColumn || settings.timelineColumn);
+    const column = timelineColumnId
+      ? columns.find(c => c.id === timelineColumnId)
+      : columns.find(c => c.type === 'timeline') || columns.find(c => c.type === 'date');
+
+    if (!column || (column.type !== 'timeline' && column.type !== 'date')) return null;
+    return { columnId: column.id, columnType: column.type };
+  }
+
   processItemsToGanttTasks(settings: GanttSettings): GanttTask[] {
     const tasks: GanttTask[] = [];
 
@@ -34,62 +159,212 @@ class DataProcessor {
       if (!board) return;
 
       items.forEach(item => {
-        const task = this.convertItemToGanttTask(item, board, settings);
-        if (task) {
-          tasks.push(task);
-
-          if (settings.showSubitems && item.subitems) {
-            item.subitems.forEach(subitem => {
-              const subtask = this.convertItemToGanttTask(subitem, board, settings, task.id);
-              if (subtask) {
-                tasks.push(subtask);
-              }
-            });
-          }
-        }
+        const subtasks = settings.showSubitems && item.subitems
+          ? item.subitems
+            .map(subitem => this.convertItemToGanttTask(subitem, board, settings, item.id))
+            .filter((subtask): subtask is GanttTask => subtask !== null)
+          : [];
+
+        const task = this.convertItemToGanttTask(item, board, settings, undefined, subtasks);
+        if (!task) return;
+
+        // Subitems are listed under their parent, so they share its group
+        subtasks.forEach(subtask => {
+          subtask.group = task.group;
+        });
+        tasks.push(task, ...subtasks);
       });
     });
 
     return this.applySettingsToTasks(tasks, settings);
   }
 
+  /**
+   * Items without dates of their own span their children and are kept as
+   * long as one of the children has dates. Subitems without dates are kept
+   * as rows without a bar. Progress of a parent is always rolled up from its
+   * children.
+   */
   private convertItemToGanttTask(
     item: MondayItem,
     board: MondayBoard,
     settings: GanttSettings,
-    parentId?: string
+    parentId?: string,
+    children: GanttTask[] = []
   ): GanttTask | null {
-    const timelineData = this.extractTimelineData(item, settings.timelineColumn);
+    const calendar = workCalendar.resolveCalendar(settings, board.id);
+    const timelineData = this.extractTimelineData(item, settings, board.id, calendar);
+    const rollup = rollUpTasks(children);
+    const hasOwnDates = !!timelineData.from || !!timelineData.to;
+    const datesFromChildren = !hasOwnDates && !!rollup;
 
-    if (!timelineData.from && !timelineData.to) {
+    if (!hasOwnDates && !rollup && !parentId) {
       return null;
     }
 
     const mirrorData = this.extractMirrorData(item, board.id);
+    const dependencyColumn = this.findDependencyColumn(item);
+    const colorByColumn = this.resolveColumnSetting(item, board.id, 'colorByColumn', settings);
+    const groupByColumn = this.resolveColumnSetting(item, board.id, 'groupByColumn', settings);
 
     const task: GanttTask = {
       id: item.id,
       name: item.name,
-      startDate: timelineData.from,
-      endDate: timelineData.to,
-      progress: this.extractProgress(item),
-      color: this.extractColor(item, settings.colorByColumn, mirrorData),
-      group: this.extractGroup(item, settings.groupByColumn, mirrorData),
+      startDate: datesFromChildren ? rollup!.startDate : timelineData.from,
+      endDate: datesFromChildren ? rollup!.endDate : timelineData.to,
+      progress: rollup ? Math.round(rollup.progress) : this.extractProgress(item),
+      color: this.extractColor(item, colorByColumn, mirrorData),
+      colorLabel: this.extractColorLabel(item, colorByColumn, mirrorData),
+      group: this.extractGroup(item, groupByColumn, mirrorData),
       boardId: board.id,
       boardName: board.name,
       parentId,
+      children: children.length > 0 ? children : undefined,
+      datesFromChildren: datesFromChildren || undefined,
       originalItem: item,
-      mirrorData
+      mirrorData,
+      dateSource: timelineData.source,
+      dependencies: dependencyColumn ? this.extractDependencies(dependencyColumn) : [],
+      dependencyColumnId: dependencyColumn?.id,
+      // A single date column has no duration to draw
+      isMilestone: this.isSingleDateSource(timelineData.source) ||
+        this.extractMilestoneFlag(item, this.resolveItemColumn(item, board.id, settings.milestoneColumn), mirrorData),
+      assignees: this.extractAssignees(item, board.id, this.resolveItemColumn(item, board.id, settings.peopleColumn), mirrorData),
+      calendar
     };
 
     return task;
   }
 
-  private extractTimelineData(item: MondayItem, timelineColumnId?: string): TimelineData {
+  /**
+   * The column a setting points at for this item: the board's own mapping
+   * wins over the global setting, and title-matched ids are resolved
+   * against the item's columns.
+   */
+  private resolveColumnSetting(
+    item: MondayItem,
+    boardId: string,
+    key: keyof BoardColumnMapping,
+    settings: GanttSettings
+  ): string | undefined {
+    return this.resolveItemColumn(item, boardId, settings.boardColumnMappings?.[boardId]?.[key] || settings[key]);
+  }
+
+  /**
+   * The id of the column a setting points at on this item. Subitems live on
+   * their own board, so a column of the parent board is matched to the
+   * subitem column with the same title.
+   */
+  private resolveItemColumn(item: MondayItem, boardId: string, columnId?: string): string | undefined {
+    const resolvedId = resolveItemColumnId(item, columnId);
+    const isSubitem = !!item.board?.id && item.board.id !== boardId;
+
+    if (!resolvedId || !isSubitem || item.column_values.some(cv => cv.id === resolvedId)) {
+      return resolvedId;
+    }
+
+    const boardColumn = this.boards.find(board => board.id === boardId)?.columns.find(column => column.id === resolvedId);
+    return boardColumn ? resolveItemColumnId(item, toSemanticColumnId(boardColumn.title)) : resolvedId;
+  }
+
+  /**
+   * Reads dates using the board's mapping. Subitems without the mapped
+   * columns fall back to the timeline lookup.
+   */
+  private extractTimelineData(
+    item: MondayItem,
+    settings: GanttSettings,
+    boardId: string,
+    calendar: WorkCalendar
+  ): TimelineData {
+    const mapping = settings.boardDateMappings?.[boardId];
+
+    if (mapping && mapping.mode !== 'timeline') {
+      const mapped = this.extractMappedDates(item, boardId, mapping, calendar);
+      if (mapped) return mapped;
+    }
+
+    return this.extractTimelineColumn(item, boardId, mapping?.timelineColumn || settings.timelineColumn);
+  }
+
+  private extractMappedDates(
+    item: MondayItem,
+    boardId: string,
+    mapping: BoardDateMapping,
+    calendar: WorkCalendar
+  ): TimelineData | null {
+    const findColumn = (columnId?: string) => {
+      const resolvedId = this.resolveItemColumn(item, boardId, columnId);
+      return item.column_values.find(cv => cv.id === resolvedId);
+    };
+
+    const startColumn = findColumn(mapping.startColumn);
+    if (!startColumn) return null;
+
+    const start = this.parseDateColumn(startColumn);
+
+    if (mapping.mode === 'start_end') {
+      const endColumn = findColumn(mapping.endColumn);
+      if (!endColumn) return null;
+
+      const end = this.parseDateColumn(endColumn);
+      return {
+        from: start || end,
+        to: end || start,
+        source: { columnId: startColumn.id, columnType: 'date', endColumnId: endColumn.id }
+      };
+    }
+
+    const durationColumn = findColumn(mapping.durationColumn);
+    if (!durationColumn) return null;
+
+    const duration = this.parseNumberColumn(durationColumn);
+    return {
+      from: start,
+      // Durations are working days and count both the start and the end day
+      to: start && duration !== null
+        ? workCalendar.addWorkingDays(
+          calendar,
+          workCalendar.snapToWorkingDay(calendar, start),
+          Math.max(1, Math.round(duration)) - 1
+        )
+        : start,
+      source: { columnId: startColumn.id, columnType: 'date', durationColumnId: durationColumn.id }
+    };
+  }
+
+  private isSingleDateSource(source?: TaskDateSource): boolean {
+    return source?.columnType === 'date' && !source.endColumnId && !source.durationColumnId;
+  }
+
+  private parseDateColumn(column: MondayColumnValue): Date | null {
+    if (!column.value) return null;
+
+    try {
+      return this.parseMondayDate(JSON.parse(column.value).date);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private parseNumberColumn(column: MondayColumnValue): number | null {
+    let raw: any = column.text;
+    try {
+      raw = column.value ? JSON.parse(column.value) : column.text;
+    } catch (error) {
+      // Fall back to the display text
+    }
+
+    const number = parseFloat(String(raw));
+    return isNaN(number) ? null : number;
+  }
+
+  private extractTimelineColumn(item: MondayItem, boardId: string, timelineColumnId?: string): TimelineData {
     let timelineColumn: MondayColumnValue | undefined;
 
     if (timelineColumnId) {
-      timelineColumn = item.column_values.find(cv => cv.id === timelineColumnId);
+      const columnId = this.resolveItemColumn(item, boardId, timelineColumnId);
+      timelineColumn = item.column_values.find(cv => cv.id === columnId);
     } else {
       timelineColumn = item.column_values.find(cv =>
         cv.type === 'timeline' || cv.type === 'date' || cv.type === 'creation_log'
@@ -104,15 +379,17 @@ class DataProcessor {
       if (timelineColumn.type === 'timeline') {
         const timelineValue = JSON.parse(timelineColumn.value);
         return {
-          from: timelineValue.from ? new Date(timelineValue.from) : null,
-          to: timelineValue.to ? new Date(timelineValue.to) : null
+          from: this.parseMondayDate(timelineValue.from),
+          to: this.parseMondayDate(timelineValue.to),
+          source: { columnId: timelineColumn.id, columnType: 'timeline' }
         };
       } else if (timelineColumn.type === 'date') {
         const dateValue = JSON.parse(timelineColumn.value);
-        const date = dateValue.date ? new Date(dateValue.date) : null;
+        const date = this.parseMondayDate(dateValue.date);
         return {
           from: date,
-          to: date
+          to: date,
+          source: { columnId: timelineColumn.id, columnType: 'date' }
         };
       }
     } catch (error) {
@@ -122,6 +399,155 @@ class DataProcessor {
     return { from: null, to: null };
   }
 
+  private extractMilestoneFlag(
+    item: MondayItem,
+    milestoneColumnId: string | undefined,
+    mirrorData: { [key: string]: any }
+  ): boolean {
+    if (!milestoneColumnId) return false;
+
+    if (mirrorData[milestoneColumnId]) {
+      return this.isTruthyFlag(mirrorData[milestoneColumnId].displayValue);
+    }
+
+    const column = item.column_values.find(cv => cv.id === milestoneColumnId);
+    if (!column) return false;
+
+    if (column.type === 'checkbox') {
+      try {
+        const value = column.value ? JSON.parse(column.value) : null;
+        return value?.checked === true || value?.checked === 'true';
+      } catch (error) {
+        return false;
+      }
+    }
+
+    return this.isTruthyFlag(column.text);
+  }
+
+  /**
+   * People assigned to an item, from the chosen people column or else from
+   * every people column and every mirror of a people column.
+   */
+  private extractAssignees(
+    item: MondayItem,
+    boardId: string,
+    peopleColumnId: string | undefined,
+    mirrorData: { [key: string]: any }
+  ): TaskAssignee[] {
+    const assignees: TaskAssignee[] = [];
+
+    const addNames = (text?: string) => {
+      (text || '').split(',').map(name => name.trim()).filter(Boolean).forEach(name => assignees.push({ name }));
+    };
+
+    const addColumn = (column: MondayColumnValue) => {
+      if (mirrorData[column.id]) {
+        addNames(mirrorData[column.id].displayValue);
+      } else if (PEOPLE_COLUMN_TYPES.includes(column.type)) {
+        assignees.push(...this.parsePeopleColumn(column));
+      } else {
+        addNames(column.text);
+      }
+    };
+
+    if (peopleColumnId) {
+      const column = item.column_values.find(cv => cv.id === peopleColumnId);
+      if (column) addColumn(column);
+    } else {
+      const mirroredPeople = new Set((this.mirrorMappings[boardId] || [])
+        .filter(mapping => PEOPLE_COLUMN_TYPES.includes(mapping.sourceColumnType || ''))
+        .map(mapping => mapping.mirrorColumnId));
+
+      item.column_values
+        .filter(cv => PEOPLE_COLUMN_TYPES.includes(cv.type) || mirroredPeople.has(cv.id))
+        .forEach(addColumn);
+    }
+
+    const seen = new Set<string>();
+    return assignees.filter(assignee => {
+      const key = assignee.id || assignee.name.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  // The value holds ids and the text holds names, both in the same order.
+  // Teams are listed too, so they are dropped by kind.
+  private parsePeopleColumn(column: MondayColumnValue): TaskAssignee[] {
+    const names = (column.text || '').split(',').map(name => name.trim()).filter(Boolean);
+
+    try {
+      const entries: any[] = column.value ? JSON.parse(column.value).personsAndTeams || [] : [];
+      if (entries.length === names.length) {
+        return entries
+          .map((entry, index) => ({ id: String(entry.id), name: names[index], kind: entry.kind }))
+          .filter(entry => entry.kind !== 'team')
+          .map(({ id, name }) => ({ id, name }));
+      }
+    } catch (error) {
+      // Fall back to the names alone
+    }
+
+    return names.map(name => ({ name }));
+  }
+
+  private isTruthyFlag(text?: string): boolean {
+    const value = (text || '').trim().toLowerCase();
+    return value !== '' && !['false', 'no', '0', 'n'].includes(value);
+  }
+
+  // Monday stores plain YYYY-MM-DD strings; parse them as local dates so that
+  // writing them back with moment().format() doesn't drift across timezones.
+  private parseMondayDate(value?: string): Date | null {
+    if (!value) return null;
+    const date = moment(value, 'YYYY-MM-DD');
+    return date.isValid() ? date.toDate() : null;
+  }
+
+  // Prefer monday's native dependency column; connect-boards columns are
+  // treated as finish-to-start links when a board has no dependency column.
+  private findDependencyColumn(item: MondayItem): MondayColumnValue | undefined {
+    return item.column_values.find(cv => cv.type === 'dependency') ||
+      item.column_values.find(cv => cv.type === 'board_relation');
+  }
+
+  private extractDependencies(column: MondayColumnValue): TaskDependency[] {
+    if (!column.value) return [];
+
+    try {
+      const value = JSON.parse(column.value);
+      const links: any[] = value.linkedPulseIds || [];
+
+      return links
+        .filter(link => link.linkedPulseId)
+        .map(link => ({
+          predecessorId: String(link.linkedPulseId),
+          type: this.parseDependencyType(link.dependencyType || link.type),
+          lagDays: typeof link.lag === 'number' ? link.lag : 0
+        }));
+    } catch (error) {
+      console.warn('Error parsing dependency data:', error);
+      return [];
+    }
+  }
+
+  private parseDependencyType(value?: string): DependencyType {
+    const normalized = (value || '').toUpperCase().replace(/[^A-Z]/g, '');
+    const aliases: { [key: string]: DependencyType } = {
+      FS: 'FS',
+      FINISHTOSTART: 'FS',
+      SS: 'SS',
+      STARTTOSTART: 'SS',
+      FF: 'FF',
+      FINISHTOFINISH: 'FF',
+      SF: 'SF',
+      STARTTOFINISH: 'SF'
+    };
+    return aliases[normalized] || 'FS';
+  }
+
   private extractMirrorData(item: MondayItem, boardId: string): { [key: string]: any } {
     const mirrorData: { [key: string]: any } = {};
     const mappings = this.mirrorMappings[boardId] || [];
@@ -197,6 +623,26 @@ class DataProcessor {
     return '#037f4c';
   }
 
+  // The text behind a bar's color, used for legends and exports
+  private extractColorLabel(
+    item: MondayItem,
+    colorByColumnId?: string,
+    mirrorData?: { [key: string]: any }
+  ): string {
+    if (colorByColumnId) {
+      if (mirrorData && mirrorData[colorByColumnId]) {
+        return mirrorData[colorByColumnId].displayValue || '';
+      }
+
+      const colorColumn = item.column_values.find(cv => cv.id === colorByColumnId);
+      if (colorColumn) {
+        return colorColumn.text || '';
+      }
+    }
+
+    return item.group?.title || '';
+  }
+
   private extractGroup(
     item: MondayItem,
     groupByColumnId?: string,
@@ -268,46 +714,48 @@ class DataProcessor {
   }
 
   private applySettingsToTasks(tasks: GanttTask[], settings: GanttSettings): GanttTask[] {
-    let processedTasks = [...tasks];
+    let processedTasks = filterEngine.applyFilters([...tasks], settings.filters);
 
-    if (settings.sortByColumn && settings.sortDirection) {
-      processedTasks = this.sortTasks(processedTasks, settings.sortByColumn, settings.sortDirection);
+    const hasBoardSort = Object.values(settings.boardColumnMappings || {})
+      .some(mapping => !!mapping.sortByColumn);
+
+    if ((settings.sortByColumn || hasBoardSort) && settings.sortDirection) {
+      processedTasks = this.sortTasks(processedTasks, settings, settings.sortDirection);
     }
 
+    this.linkChildren(processedTasks);
     return processedTasks;
   }
 
-  private sortTasks(tasks: GanttTask[], sortByColumn: string, direction: 'asc' | 'desc'): GanttTask[] {
-    return tasks.sort((a, b) => {
-      let aValue: any = null;
-      let bValue: any = null;
-
-      if (sortByColumn === 'name') {
-        aValue = a.name;
-        bValue = b.name;
-      } else if (sortByColumn === 'start_date') {
-        aValue = a.startDate;
-        bValue = b.startDate;
-      } else if (sortByColumn === 'end_date') {
-        aValue = a.endDate;
-        bValue = b.endDate;
-      } else {
-        const aColumn = a.originalItem.column_values.find(cv => cv.id === sortByColumn);
-        const bColumn = b.originalItem.column_values.find(cv => cv.id === sortByColumn);
-
-        aValue = aColumn?.text || '';
-        bValue = bColumn?.text || '';
-
-        if (aColumn?.type === 'numeric' || aColumn?.type === 'rating') {
-          try {
-            aValue = parseFloat(JSON.parse(aColumn.value || '0'));
-            bValue = parseFloat(JSON.parse(bColumn?.value || '0'));
-          } catch (error) {
-            aValue = 0;
-            bValue = 0;
-          }
-        }
+  // Limits each parent's children to the ones that passed the filters, in sorted order
+  private linkChildren(tasks: GanttTask[]): void {
+    const childrenByParent = new Map<string, GanttTask[]>();
+    tasks.forEach(task => {
+      if (!task.parentId) return;
+      if (!childrenByParent.has(task.parentId)) {
+        childrenByParent.set(task.parentId, []);
       }
+      childrenByParent.get(task.parentId)!.push(task);
+    });
+
+    tasks.forEach(task => {
+      if (task.children) {
+        task.children = childrenByParent.get(task.id) || [];
+      }
+    });
+  }
+
+  // Each task is sorted by its own board's sort column, so a status column
+  // on one board lines up with the equivalent column on another.
+  private sortTasks(tasks: GanttTask[], settings: GanttSettings, direction: 'asc' | 'desc'): GanttTask[] {
+    const sortValues = new Map(tasks.map(task => [
+      task.id,
+      this.getSortValue(task, this.resolveColumnSetting(task.originalItem, task.boardId || '', 'sortByColumn', settings))
+    ]));
+
+    return tasks.sort((a, b) => {
+      let aValue: any = sortValues.get(a.id);
+      let bValue: any = sortValues.get(b.id);
 
       if (aValue === null || aValue === undefined) aValue = direction === 'asc' ? '' : 'zzz';
       if (bValue === null || bValue === undefined) bValue = direction === 'asc' ? '' : 'zzz';
@@ -333,8 +781,86 @@ class DataProcessor {
     });
   }
 
-  getAvailableColumns(includeBasicColumns: boolean = true): Array<{id: string, title: string, type: string}> {
-    const columns: Array<{id: string, title: string, type: string}> = [];
+  private getSortValue(task: GanttTask, sortByColumn?: string): any {
+    if (!sortByColumn) return null;
+    if (sortByColumn === 'name') return task.name;
+    if (sortByColumn === 'start_date') return task.startDate;
+    if (sortByColumn === 'end_date') return task.endDate;
+
+    const column = task.originalItem.column_values.find(cv => cv.id === sortByColumn);
+
+    if (column?.type === 'numeric' || column?.type === 'rating') {
+      try {
+        return parseFloat(JSON.parse(column.value || '0'));
+      } catch (error) {
+        return 0;
+      }
+    }
+
+    return column?.text || '';
+  }
+
+  /**
+   * Mirror columns to include in exports: the ones picked in settings, or
+   * every mirror column on the loaded boards when none are picked.
+   */
+  getExportMirrorColumns(settings: GanttSettings): MirrorColumnMapping[] {
+    const seen = new Set<string>();
+    const mappings: MirrorColumnMapping[] = [];
+
+    Object.keys(this.allItems).forEach(boardId => {
+      (this.mirrorMappings[boardId] || []).forEach(mapping => {
+        if (seen.has(mapping.mirrorColumnId)) return;
+        if (settings.mirrorColumns && settings.mirrorColumns.length > 0 &&
+          !settings.mirrorColumns.includes(mapping.mirrorColumnId)) return;
+
+        seen.add(mapping.mirrorColumnId);
+        mappings.push(mapping);
+      });
+    });
+
+    return mappings;
+  }
+
+  /**
+   * Distinct display values of a column across all loaded items (and their
+   * subitems), used to offer choices in the filter builder.
+   */
+  getColumnValueOptions(columnId: string): string[] {
+    const values = new Set<string>();
+
+    const addText = (text?: string) => {
+      (text || '').split(',').map(value => value.trim()).filter(Boolean).forEach(value => values.add(value));
+    };
+
+    Object.entries(this.allItems).forEach(([boardId, items]) => {
+      const board = this.boards.find(b => b.id === boardId);
+
+      const visit = (item: MondayItem) => {
+        if (columnId === 'group') {
+          addText(item.group?.title);
+        } else if (columnId === 'board') {
+          addText(board?.name);
+        } else {
+          const resolvedId = resolveItemColumnId(item, columnId);
+          addText(item.column_values.find(cv => cv.id === resolvedId)?.text);
+        }
+        item.subitems?.forEach(visit);
+      };
+
+      items.forEach(visit);
+    });
+
+    return Array.from(values).sort((a, b) => a.localeCompare(b));
+  }
+
+  /**
+   * Columns of the loaded boards, one per column id. Columns sharing a title
+   * on several boards are also offered as one title-matched column. Pass a
+   * board id to list only that board's columns, titled without the board name.
+   */
+  getAvailableColumns(includeBasicColumns: boolean = true, boardId?: string): AvailableColumn[] {
+    const columns: AvailableColumn[] = [];
 
     if (includeBasicColumns) {
       columns.push(
@@ -346,20 +872,58 @@ class DataProcessor {
       );
     }
 
-    this.boards.forEach(board => {
-      board.columns.forEach(column => {
-        if (!column.archived && !columns.find(c => c.id === column.id)) {
-          columns.push({
-            id: column.id,
-            title: `${column.title} (${board.name})`,
-            type: column.type
-          });
+    const boards = this.boards.filter(board => !boardId || board.id === boardId);
+
+    if (!boardId) {
+      const titled = new Map<string, { title: string, type: string, boardIds: Set<string> }>();
+
+      boards.forEach(board => {
+        board.columns.filter(column => !column.archived).forEach(column => {
+          const semanticId = toSemanticColumnId(column.title);
+          const entry = titled.get(semanticId) || { title: column.title, type: column.type, boardIds: new Set<string>() };
+          entry.boardIds.add(board.id);
+          titled.set(semanticId, entry);
+        });
+      });
+
+      titled.forEach((entry, semanticId) => {
+        if (entry.boardIds.size > 1) {
+          columns.push({ id: semanticId, title: `${entry.title} (all boards)`, type: entry.type });
         }
       });
+    }
+
+    // Global settings and filters store a bare column id, so an id shared by
+    // several boards (such as "status") is listed once and applies to all of
+    // them. Choosing one board's column is left to the per-board mappings.
+    const byId = new Map<string, { column: MondayColumn, boards: MondayBoard[] }>();
+
+    boards.forEach(board => {
+      board.columns.forEach(column => {
+        if (column.archived) return;
+        const entry = byId.get(column.id) || { column, boards: [] };
+        if (!entry.boards.includes(board)) entry.boards.push(board);
+        byId.set(column.id, entry);
+      });
+    });
+
+    byId.forEach(({ column, boards: columnBoards }) => {
+      const isShared = columnBoards.length > 1;
+      let title = column.title;
+      if (!boardId) {
+        title += isShared ? ` (${columnBoards.length} boards)` : ` (${columnBoards[0].name})`;
+      }
+
+      columns.push({
+        id: column.id,
+        title,
+        type: column.type,
+        boardId: isShared ? undefined : columnBoards[0].id
+      });
     });
 
     return columns;
   }
 }
 
-export default new DataProcessor();
\ No newline at end of file
+export default new DataProcessor();
@@ -0,0 +1,190 @@
+import { FilterOperator, GanttTask, TaskFilter } from '../types';
+import moment from 'moment';
+import { resolveItemColumnId } from '../utils/columnResolver';
+
+interface ResolvedValue {
+  text: string;
+  rawValue: any;
+  type: string;
+}
+
+export const FILTER_OPERATOR_LABELS: { [operator in FilterOperator]: string } = {
+  is_any_of: 'is any of',
+  assigned_to: 'assigned to',
+  between: 'between',
+  overlaps: 'overlaps',
+  contains: 'contains'
+};
+
+const OPERATORS_BY_COLUMN_TYPE: { [type: string]: FilterOperator[] } = {
+  status: ['is_any_of'],
+  color: ['is_any_of'],
+  dropdown: ['is_any_of'],
+  people: ['assigned_to'],
+  multiple_person: ['assigned_to'],
+  team: ['assigned_to'],
+  numeric: ['between'],
+  numbers: ['between'],
+  rating: ['between'],
+  date: ['overlaps'],
+  timeline: ['overlaps'],
+  // Mirror columns don't expose their source type, so allow any predicate
+  mirror: ['is_any_of', 'assigned_to', 'contains', 'between', 'overlaps'],
+  lookup: ['is_any_of', 'assigned_to', 'contains', 'between', 'overlaps']
+};
+
+class FilterEngine {
+  getOperatorsForColumnType(type: string): FilterOperator[] {
+    return OPERATORS_BY_COLUMN_TYPE[type] || ['contains', 'is_any_of'];
+  }
+
+  /**
+   * Keeps tasks matching every filter. Parents of matching subitems are kept
+   * too so that the subitem still has a row to hang under.
+   */
+  applyFilters(tasks: GanttTask[], filters: TaskFilter[] = []): GanttTask[] {
+    const activeFilters = filters.filter(filter => this.isComplete(filter));
+    if (activeFilters.length === 0) return tasks;
+
+    const matchingIds = new Set<string>();
+    tasks.forEach(task => {
+      if (activeFilters.every(filter => this.matches(task, filter))) {
+        matchingIds.add(task.id);
+        if (task.parentId) matchingIds.add(task.parentId);
+      }
+    });
+
+    return tasks.filter(task => matchingIds.has(task.id));
+  }
+
+  isComplete(filter: TaskFilter): boolean {
+    switch (filter.operator) {
+      case 'is_any_of':
+      case 'assigned_to':
+        return !!filter.values && filter.values.length > 0;
+      case 'between':
+        return filter.min !== undefined || filter.max !== undefined;
+      case 'overlaps':
+        return !!filter.from || !!filter.to;
+      case 'contains':
+        return !!filter.text;
+      default:
+        return false;
+    }
+  }
+
+  matches(task: GanttTask, filter: TaskFilter): boolean {
+    const resolved = this.resolveValue(task, filter.columnId);
+
+    switch (filter.operator) {
+      case 'is_any_of':
+      case 'assigned_to': {
+        if (!resolved) return false;
+        const wanted = (filter.values || []).map(value => value.toLowerCase());
+        return this.splitValues(resolved.text).some(value => wanted.includes(value.toLowerCase()));
+      }
+      case 'between': {
+        const number = resolved ? this.parseNumber(resolved) : null;
+        if (number === null) return false;
+        if (filter.min !== undefined && number < filter.min) return false;
+        if (filter.max !== undefined && number > filter.max) return false;
+        return true;
+      }
+      case 'overlaps': {
+        const range = this.resolveDateRange(task, filter.columnId, resolved);
+        if (!range) return false;
+        const windowStart = filter.from ? moment(filter.from, 'YYYY-MM-DD') : null;
+        const windowEnd = filter.to ? moment(filter.to, 'YYYY-MM-DD') : null;
+        if (windowStart && moment(range.to).isBefore(windowStart, 'day')) return false;
+        if (windowEnd && moment(range.from).isAfter(windowEnd, 'day')) return false;
+        return true;
+      }
+      case 'contains':
+        return !!resolved && resolved.text.toLowerCase().includes((filter.text || '').toLowerCase());
+      default:
+        return true;
+    }
+  }
+
+  // Mirror data wins over the raw column value so mirrored columns filter on
+  // what the source board shows. Title-matched ids resolve per task.
+  private resolveValue(task: GanttTask, filterColumnId: string): ResolvedValue | null {
+    switch (filterColumnId) {
+      case 'name':
+        return { text: task.name, rawValue: task.name, type: 'text' };
+      case 'group':
+        return { text: task.group || '', rawValue: task.group, type: 'text' };
+      case 'board':
+        return { text: task.boardName || '', rawValue: task.boardName, type: 'text' };
+    }
+
+    const columnId = resolveItemColumnId(task.originalItem, filterColumnId);
+    if (!columnId) return null;
+
+    const mirror = task.mirrorData?.[columnId];
+    if (mirror) {
+      return { text: mirror.displayValue || '', rawValue: mirror.rawValue, type: mirror.type };
+    }
+
+    const column = task.originalItem.column_values.find(cv => cv.id === columnId);
+    if (!column) return null;
+
+    let rawValue: any = column.value;
+    try {
+      rawValue = column.value ? JSON.parse(column.value) : null;
+    } catch (error) {
+      // Keep the unparsed string
+    }
+
+    return { text: column.text || '', rawValue, type: column.type };
+  }
+
+  private splitValues(text: string): string[] {
+    return text.split(',').map(value => value.trim()).filter(Boolean);
+  }
+
+  private parseNumber(resolved: ResolvedValue): number | null {
+    const candidate = typeof resolved.rawValue === 'number' || typeof resolved.rawValue === 'string'
+      ? resolved.rawValue
+      : resolved.text;
+    const number = parseFloat(String(candidate));
+    return isNaN(number) ? null : number;
+  }
+
+  private resolveDateRange(
+    task: GanttTask,
+    columnId: string,
+    resolved: ResolvedValue | null
+  ): { from: Date; to: Date } | null {
+    if (columnId === 'start_date') {
+      return task.startDate ? { from: task.startDate, to: task.startDate } : null;
+    }
+    if (columnId === 'end_date') {
+      return task.endDate ? { from: task.endDate, to: task.endDate } : null;
+    }
+    if (!resolved) return null;
+
+    const raw = resolved.rawValue;
+    if (raw && typeof raw === 'object') {
+      if (raw.from || raw.to) {
+        const from = moment(raw.from || raw.to, 'YYYY-MM-DD');
+        const to = moment(raw.to || raw.from, 'YYYY-MM-DD');
+        return from.isValid() && to.isValid() ? { from: from.toDate(), to: to.toDate() } : null;
+      }
+      if (raw.date) {
+        const date = moment(raw.date, 'YYYY-MM-DD');
+        return date.isValid() ? { from: date.toDate(), to: date.toDate() } : null;
+      }
+    }
+
+    // Mirrored dates only carry display text such as "2024-01-02 - 2024-01-09"
+    const dates = (resolved.text.match(/\d{4}-\d{2}-\d{2}/g) || [])
+      .map(text => moment(text, 'YYYY-MM-DD'))
+      .filter(date => date.isValid());
+    if (dates.length === 0) return null;
+
+    return { from: dates[0].toDate(), to: dates[dates.length - 1].toDate() };
+  }
+}
+
+export default new FilterEngine();
@@ -1,11 +1,62 @@
 import mondaySdk from 'monday-sdk-js';
+import moment from 'moment';
 import {
+  BoardChangeEvent,
+  GanttTask,
+  ItemColumnUpdate,
   MondayBoard,
   MondayItem,
   MondayColumn,
+  MondayUser,
   MirrorColumnMapping,
-  WidgetContext
+  LoadProgress,
+  TaskBaseline,
+  TaskDateChange,
+  TaskDateSource,
+  WidgetContext,
+  WorkCalendar
 } from '../types';
+import workCalendar, { STANDARD_CALENDAR } from './workCalendar';
+import { getWritableColumnValues } from '../utils/columnValues';
+
+// monday caps items_page at 500; smaller pages keep query complexity low
+const ITEMS_PAGE_SIZE = 100;
+const ITEMS_BY_ID_BATCH_SIZE = 100;
+const BOARD_FETCH_CONCURRENCY = 3;
+
+const ITEM_FIELDS = `
+  id
+  name
+  column_values {
+    id
+    title
+    type
+    value
+    text
+    additional_info
+  }
+  group {
+    id
+    title
+    color
+    position
+  }
+  subitems {
+    id
+    name
+    board {
+      id
+    }
+    column_values {
+      id
+      title
+      type
+      value
+      text
+      additional_info
+    }
+  }
+`;
 
 class MondayService {
   private monday: any;
@@ -47,7 +98,8 @@ class MondayService {
         boardIds,
         theme: context.theme || 'light',
         viewMode: viewMode as 'dashboard' | 'board',
-        editMode: context.editMode || false
+        editMode: context.editMode || false,
+        userId: context.user?.id ? String(context.user.id) : undefined
       };
     } catch (error) {
       console.error('Error initializing widget:', error);
@@ -158,71 +210,146 @@ class MondayService {
     }
   }
 
-  async getBoardItems(boardId: string, limit: number = 100): Promise<MondayItem[]> {
-    const query = `
+  async getBoardItems(
+    boardId: string,
+    options: { maxItems?: number; onPage?: (loadedCount: number) => void } = {}
+  ): Promise<MondayItem[]> {
+    const firstPageQuery = `
       query($boardId: [Int!], $limit: Int) {
         boards(ids: $boardId) {
           items_page(limit: $limit) {
+            cursor
             items {
-              id
-              name
-              column_values {
-                id
-                title
-                type
-                value
-                text
-                additional_info
-              }
-              group {
-                id
-                title
-                color
-                position
-              }
-              subitems {
-                id
-                name
-                column_values {
-                  id
-                  title
-                  type
-                  value
-                  text
-                  additional_info
-                }
-              }
+              ${ITEM_FIELDS}
             }
           }
         }
       }
     `;
 
+    const nextPageQuery = `
+      query($cursor: String!, $limit: Int) {
+        next_items_page(cursor: $cursor, limit: $limit) {
+          cursor
+          items {
+            ${ITEM_FIELDS}
+          }
+        }
+      }
+    `;
+
+    const maxItems = options.maxItems ?? Infinity;
+    const items: MondayItem[] = [];
+
     try {
-      const response = await this.monday.api(query, {
-        variables: { boardId: [parseInt(boardId)], limit }
+      const response = await this.monday.api(firstPageQuery, {
+        variables: { boardId: [parseInt(boardId)], limit: Math.min(ITEMS_PAGE_SIZE, maxItems) }
       });
 
-      const board = response.data?.boards?.[0];
-      return board?.items_page?.items || [];
+      const firstPage = response.data?.boards?.[0]?.items_page;
+      items.push(...(firstPage?.items || []));
+      options.onPage?.(items.length);
+
+      let cursor: string | null = firstPage?.cursor || null;
+
+      while (cursor && items.length < maxItems) {
+        const pageResponse: any = await this.monday.api(nextPageQuery, {
+          variables: { cursor, limit: Math.min(ITEMS_PAGE_SIZE, maxItems - items.length) }
+        });
+
+        const page: any = pageResponse.data?.next_items_page;
+        items.push(...(page?.items || []));
+        options.onPage?.(items.length);
+
+        cursor = page?.cursor || null;
+      }
+
+      if (cursor) {
+        console.warn(`Board ${boardId} has more than ${maxItems} items; the rest were not loaded`);
+      }
     } catch (error) {
+      // Keep whatever pages made it through rather than dropping the whole board
       console.error(`Error fetching items for board ${boardId}:`, error);
-      return [];
     }
+
+    return items.slice(0, maxItems);
   }
 
-  async getAllBoardItems(boardIds: string[]): Promise<{ [boardId: string]: MondayItem[] }> {
+  async getAllBoardItems(
+    boardIds: string[],
+    options: {
+      maxItemsPerBoard?: number;
+      concurrency?: number;
+      onProgress?: (progress: LoadProgress) => void;
+    } = {}
+  ): Promise<{ [boardId: string]: MondayItem[] }> {
     const results: { [boardId: string]: MondayItem[] } = {};
+    const loadedPerBoard: { [boardId: string]: number } = {};
+    const concurrency = Math.max(1, options.concurrency || BOARD_FETCH_CONCURRENCY);
+    const queue = [...boardIds];
+    let boardsLoaded = 0;
+
+    const reportProgress = () => {
+      options.onProgress?.({
+        boardsLoaded,
+        totalBoards: boardIds.length,
+        itemsLoaded: Object.values(loadedPerBoard).reduce((sum, count) => sum + count, 0)
+      });
+    };
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const boardId = queue.shift()!;
+        results[boardId] = await this.getBoardItems(boardId, {
+          maxItems: options.maxItemsPerBoard,
+          onPage: (loadedCount) => {
+            loadedPerBoard[boardId] = loadedCount;
+            reportProgress();
+          }
+        });
+        boardsLoaded++;
+        reportProgress();
+      }
+    };
 
+    reportProgress();
     await Promise.all(
-      boardIds.map(async (boardId) => {
-        results[boardId] = await this.getBoardItems(boardId);
-      })
+      Array.from({ length: Math.min(concurrency, boardIds.length) }, () => worker())
     );
 
     return results;
   }
 
+  /**
+   * Fetches specific items (top-level items or subitems) by id. Ids that don't
+   * come back have been deleted or archived.
+   */
+  async getItemsByIds(itemIds: string[]): Promise<MondayItem[]> {
+    const query = `
+      query($itemIds: [ID!]) {
+        items(ids: $itemIds) {
+          ${ITEM_FIELDS}
+          board {
+            id
+          }
+          parent_item {
+            id
+          }
+        }
+      }
+    `;
+
+    const items: MondayItem[] = [];
+
+    for (let i = 0; i < itemIds.length; i += ITEMS_BY_ID_BATCH_SIZE) {
+      const batch = itemIds.slice(i, i + ITEMS_BY_ID_BATCH_SIZE);
+      const response = await this.monday.api(query, { variables: { itemIds: batch } });
+      items.push(...(response.data?.items || []));
+    }
+
+    return items;
+  }
+
   async getMirrorColumnMappings(boardId: string): Promise<MirrorColumnMapping[]> {
     const query = `
       query($boardId: [Int!]) {
@@ -264,6 +391,7 @@ class MondayService {
                   columns {
                     id
                     title
+                    type
                   }
                 }
               }
@@ -286,7 +414,8 @@ class MondayService {
                 sourceBoardName: sourceBoard.name,
                 mirrorColumnId: mirrorCol.id,
                 mirrorColumnTitle: mirrorCol.title,
-                targetBoardId: boardId
+                targetBoardId: boardId,
+                sourceColumnType: sourceColumn.type
               });
             }
           }
@@ -359,6 +488,376 @@ class MondayService {
     }
   }
 
+  async changeColumnValue(
+    boardId: string,
+    itemId: string,
+    columnId: string,
+    value: any
+  ): Promise<void> {
+    const mutation = `
+      mutation($boardId: ID!, $itemId: ID!, $columnId: String!, $value: JSON!) {
+        change_column_value(board_id: $boardId, item_id: $itemId, column_id: $columnId, value: $value) {
+          id
+        }
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(mutation, {
+        variables: { boardId, itemId, columnId, value: JSON.stringify(value) }
+      });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(response.errors[0].message);
+      }
+    } catch (error) {
+      console.error(`Error updating column ${columnId} on item ${itemId}:`, error);
+      throw error;
+    }
+  }
+
+  async changeMultipleColumnValues(
+    boardId: string,
+    itemId: string,
+    values: { [columnId: string]: any }
+  ): Promise<void> {
+    const mutation = `
+      mutation($boardId: ID!, $itemId: ID!, $values: JSON!) {
+        change_multiple_column_values(
+          board_id: $boardId,
+          item_id: $itemId,
+          column_values: $values,
+          create_labels_if_missing: true
+        ) {
+          id
+        }
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(mutation, {
+        variables: { boardId, itemId, values: JSON.stringify(values) }
+      });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(response.errors[0].message);
+      }
+    } catch (error) {
+      console.error(`Error updating columns on item ${itemId}:`, error);
+      throw error;
+    }
+  }
+
+  async createItem(
+    boardId: string,
+    itemName: string,
+    columnValues: { [columnId: string]: any } = {},
+    groupId?: string
+  ): Promise<string> {
+    const mutation = `
+      mutation($boardId: ID!, $groupId: String, $itemName: String!, $columnValues: JSON) {
+        create_item(
+          board_id: $boardId,
+          group_id: $groupId,
+          item_name: $itemName,
+          column_values: $columnValues,
+          create_labels_if_missing: true
+        ) {
+          id
+        }
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(mutation, {
+        variables: { boardId, groupId, itemName, columnValues: JSON.stringify(columnValues) }
+      });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(response.errors[0].message);
+      }
+
+      return String(response.data.create_item.id);
+    } catch (error) {
+      console.error(`Error creating item "${itemName}" on board ${boardId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a subitem and returns its id together with the id of the
+   * subitems board, which monday only creates with the first subitem.
+   */
+  async createSubitem(
+    parentItemId: string,
+    itemName: string,
+    columnValues: { [columnId: string]: any } = {}
+  ): Promise<{ id: string; boardId: string }> {
+    const mutation = `
+      mutation($parentItemId: ID!, $itemName: String!, $columnValues: JSON) {
+        create_subitem(
+          parent_item_id: $parentItemId,
+          item_name: $itemName,
+          column_values: $columnValues,
+          create_labels_if_missing: true
+        ) {
+          id
+          board {
+            id
+          }
+        }
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(mutation, {
+        variables: { parentItemId, itemName, columnValues: JSON.stringify(columnValues) }
+      });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(response.errors[0].message);
+      }
+
+      const subitem = response.data.create_subitem;
+      return { id: String(subitem.id), boardId: String(subitem.board.id) };
+    } catch (error) {
+      console.error(`Error creating subitem "${itemName}" under item ${parentItemId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates an item with its dates written to the given date columns and
+   * returns its id.
+   */
+  async createItemWithDates(
+    boardId: string,
+    itemName: string,
+    source: TaskDateSource,
+    calendar: WorkCalendar,
+    startDate: Date,
+    endDate: Date,
+    groupId?: string
+  ): Promise<string> {
+    return this.createItem(boardId, itemName, this.buildDateValues(source, calendar, startDate, endDate), groupId);
+  }
+
+  /**
+   * Renames an item and/or writes column values in one mutation. Values are
+   * in the JSON shape each column type expects.
+   */
+  async updateItem(
+    boardId: string,
+    itemId: string,
+    changes: { name?: string; columnValues?: { [columnId: string]: any } }
+  ): Promise<void> {
+    const values = { ...(changes.columnValues || {}) };
+    if (changes.name !== undefined) {
+      values.name = changes.name;
+    }
+
+    if (Object.keys(values).length > 0) {
+      await this.changeMultipleColumnValues(boardId, itemId, values);
+    }
+  }
+
+  async deleteItem(itemId: string): Promise<void> {
+    const mutation = `
+      mutation($itemId: ID!) {
+        delete_item(item_id: $itemId) {
+          id
+        }
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(mutation, { variables: { itemId } });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(response.errors[0].message);
+      }
+    } catch (error) {
+      console.error(`Error deleting item ${itemId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Recreates a deleted item and its subitems from the copy the widget
+   * loaded, as a subitem of `parentItemId` when given. monday's API can't
+   * restore items from the trash, so the copies get new ids; they are
+   * returned keyed by the deleted ids.
+   */
+  async recreateItem(item: MondayItem, boardId: string, parentItemId?: string): Promise<{ [deletedId: string]: string }> {
+    const values = getWritableColumnValues(item);
+    const itemId = parentItemId
+      ? (await this.createSubitem(parentItemId, item.name, values)).id
+      : await this.createItem(boardId, item.name, values, item.group?.id);
+
+    const newIds: { [deletedId: string]: string } = { [item.id]: itemId };
+    for (const subitem of item.subitems || []) {
+      newIds[subitem.id] = (await this.createSubitem(itemId, subitem.name, getWritableColumnValues(subitem))).id;
+    }
+
+    return newIds;
+  }
+
+  async getUsers(): Promise<MondayUser[]> {
+    const query = `
+      query {
+        users(kind: non_guests) {
+          id
+          name
+          email
+        }
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(query);
+      return (response.data?.users || []).map((user: any) => ({ ...user, id: String(user.id) }));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Writes new dates to the columns the task was read from. Returns the raw
+   * column values that were written, keyed by column id.
+   */
+  async updateTaskDates(
+    task: GanttTask,
+    startDate: Date,
+    endDate: Date
+  ): Promise<{ [columnId: string]: any }> {
+    const source = task.dateSource;
+    if (!source) {
+      throw new Error(`Item ${task.id} has no editable date column`);
+    }
+
+    const boardId = this.getTaskBoardId(task);
+    const values = this.buildDateValues(source, task.calendar || STANDARD_CALENDAR, startDate, endDate);
+
+    const columnIds = Object.keys(values);
+    if (columnIds.length === 1) {
+      await this.changeColumnValue(boardId, task.id, columnIds[0], values[columnIds[0]]);
+    } else {
+      await this.changeMultipleColumnValues(boardId, task.id, values);
+    }
+
+    return values;
+  }
+
+  /**
+   * Replaces the predecessors stored in the task's dependency (or connect
+   * boards) column. Only item ids can be written, which resets the type and
+   * lag of every link, so callers check the task has none to lose.
+   */
+  async updateDependencies(task: GanttTask, predecessorIds: string[]): Promise<void> {
+    if (!task.dependencyColumnId) {
+      throw new Error(`Item ${task.id} has no dependency column`);
+    }
+
+    await this.changeColumnValue(this.getTaskBoardId(task), task.id, task.dependencyColumnId, {
+      item_ids: predecessorIds.map(id => Number(id))
+    });
+  }
+
+  /**
+   * Writes new dates for several tasks in one request. Returns the written
+   * column values keyed by task id.
+   */
+  async updateTaskDatesBatch(changes: TaskDateChange[]): Promise<{ [taskId: string]: { [columnId: string]: any } }> {
+    const written: { [taskId: string]: { [columnId: string]: any } } = {};
+
+    const updates = changes.map(({ task, startDate, endDate }) => {
+      if (!task.dateSource) {
+        throw new Error(`Item ${task.id} has no editable date column`);
+      }
+
+      written[task.id] = this.buildDateValues(task.dateSource, task.calendar || STANDARD_CALENDAR, startDate, endDate);
+      return { boardId: this.getTaskBoardId(task), itemId: task.id, values: written[task.id] };
+    });
+
+    await this.updateColumnValuesBatch(updates);
+    return written;
+  }
+
+  /**
+   * Writes column values to several items in one request, using an aliased
+   * change_multiple_column_values per item.
+   */
+  async updateColumnValuesBatch(updates: ItemColumnUpdate[]): Promise<void> {
+    if (updates.length === 0) return;
+
+    const declarations: string[] = [];
+    const fields: string[] = [];
+    const variables: { [name: string]: any } = {};
+
+    updates.forEach(({ boardId, itemId, values }, index) => {
+      declarations.push(`$board${index}: ID!, $item${index}: ID!, $values${index}: JSON!`);
+      fields.push(
+        `update${index}: change_multiple_column_values(board_id: $board${index}, item_id: $item${index}, column_values: $values${index}, create_labels_if_missing: true) { id }`
+      );
+      variables[`board${index}`] = boardId;
+      variables[`item${index}`] = itemId;
+      variables[`values${index}`] = JSON.stringify(values);
+    });
+
+    const mutation = `
+      mutation(${declarations.join(', ')}) {
+        ${fields.join('\n        ')}
+      }
+    `;
+
+    try {
+      const response = await this.monday.api(mutation, { variables });
+
+      if (response.errors && response.errors.length > 0) {
+        throw new Error(response.errors[0].message);
+      }
+    } catch (error) {
+      console.error(`Error updating columns on ${updates.length} items:`, error);
+      throw error;
+    }
+  }
+
+  // Subitems live on their own board, so prefer the item's board over the task's
+  getTaskBoardId(task: GanttTask): string {
+    const boardId = task.originalItem.board?.id || task.boardId;
+    if (!boardId) {
+      throw new Error(`Item ${task.id} has no board`);
+    }
+    return boardId;
+  }
+
+  private buildDateValues(
+    source: TaskDateSource,
+    calendar: WorkCalendar,
+    startDate: Date,
+    endDate: Date
+  ): { [columnId: string]: any } {
+    const values: { [columnId: string]: any } = {};
+
+    if (source.columnType === 'timeline') {
+      values[source.columnId] = { from: moment(startDate).format('YYYY-MM-DD'), to: moment(endDate).format('YYYY-MM-DD') };
+    } else {
+      values[source.columnId] = { date: moment(startDate).format('YYYY-MM-DD') };
+
+      if (source.endColumnId) {
+        values[source.endColumnId] = { date: moment(endDate).format('YYYY-MM-DD') };
+      }
+      if (source.durationColumnId) {
+        // Durations are working days of the board's calendar
+        const days = workCalendar.countWorkingDays(calendar, startDate, endDate);
+        values[source.durationColumnId] = String(Math.max(1, days));
+      }
+    }
+
+    return values;
+  }
+
   async saveWidgetSettings(settings: any): Promise<void> {
     try {
       await this.monday.storage.instance.setItem('gantt_settings', JSON.stringify(settings));
@@ -377,6 +876,71 @@ class MondayService {
     }
   }
 
+  async saveBaselines(baselines: TaskBaseline[]): Promise<void> {
+    try {
+      await this.monday.storage.instance.setItem('gantt_baselines', JSON.stringify(baselines));
+    } catch (error) {
+      console.error('Error saving baselines:', error);
+      throw error;
+    }
+  }
+
+  async loadBaselines(): Promise<TaskBaseline[]> {
+    try {
+      const baselines = await this.monday.storage.instance.getItem('gantt_baselines');
+      return baselines?.value ? JSON.parse(baselines.value) : [];
+    } catch (error) {
+      console.error('Error loading baselines:', error);
+      return [];
+    }
+  }
+
+  // Instance storage is shared by everyone who sees the widget, so view
+  // state that belongs to one person is keyed by their user id.
+  async saveCollapsedGroups(userId: string | undefined, groups: string[]): Promise<void> {
+    try {
+      await this.monday.storage.instance.setItem(`gantt_collapsed_groups_${userId || 'default'}`, JSON.stringify(groups));
+    } catch (error) {
+      console.error('Error saving collapsed groups:', error);
+    }
+  }
+
+  async loadCollapsedGroups(userId: string | undefined): Promise<string[]> {
+    try {
+      const groups = await this.monday.storage.instance.getItem(`gantt_collapsed_groups_${userId || 'default'}`);
+      return groups?.value ? JSON.parse(groups.value) : [];
+    } catch (error) {
+      console.error('Error loading collapsed groups:', error);
+      return [];
+    }
+  }
+
+  listenForEvents(callback: (event: BoardChangeEvent) => void): () => void {
+    const unsubscribe = this.monday.listen('events', (res: any) => {
+      const data = res?.data || {};
+      const itemIds: string[] = (data.itemIds || (data.itemId ? [data.itemId] : []))
+        .map((id: string | number) => String(id));
+
+      callback({
+        type: data.type || 'unknown',
+        boardId: data.boardId ? String(data.boardId) : undefined,
+        itemIds
+      });
+    });
+
+    return typeof unsubscribe === 'function' ? unsubscribe : () => undefined;
+  }
+
+  listenForContext(callback: (context: any) => void): () => void {
+    const unsubscribe = this.monday.listen('context', (res: any) => callback(res?.data || {}));
+    return typeof unsubscribe === 'function' ? unsubscribe : () => undefined;
+  }
+
+  listenForSettings(callback: (settings: any) => void): () => void {
+    const unsubscribe = this.monday.listen('settings', (res: any) => callback(res?.data || {}));
+    return typeof unsubscribe === 'function' ? unsubscribe : () => undefined;
+  }
+
   showNotice(message: string, type: 'success' | 'error' | 'info' = 'info'): void {
     this.monday.execute('notice', {
       message,
@@ -0,0 +1,117 @@
+import { GanttTask } from '../types';
+import moment from 'moment';
+import workCalendar, { STANDARD_CALENDAR } from './workCalendar';
+
+export interface ResourceSlot {
+  task: GanttTask;
+  lane: number;
+}
+
+export interface ResourceRow {
+  key: string;
+  name: string;
+  isUnassigned?: boolean;
+  // Overlapping tasks are stacked in lanes so none of them is hidden
+  slots: ResourceSlot[];
+  laneCount: number;
+  // Number of tasks running on each day, keyed by YYYY-MM-DD
+  load: { [day: string]: number };
+  overallocatedDays: number;
+}
+
+/**
+ * Groups tasks by assignee for the resource view. A task with several
+ * assignees appears in each of their rows; milestones and non-working days
+ * of the task's calendar take no capacity.
+ */
+class ResourcePlanner {
+  buildRows(tasks: GanttTask[], capacity: number): ResourceRow[] {
+    const tasksByPerson = new Map<string, { name: string; tasks: GanttTask[] }>();
+    const unassigned: GanttTask[] = [];
+
+    tasks.filter(task => task.startDate && task.endDate).forEach(task => {
+      if (!task.assignees || task.assignees.length === 0) {
+        unassigned.push(task);
+        return;
+      }
+
+      task.assignees.forEach(assignee => {
+        const key = assignee.id || assignee.name.toLowerCase();
+        const entry = tasksByPerson.get(key) || { name: assignee.name, tasks: [] };
+        entry.tasks.push(task);
+        tasksByPerson.set(key, entry);
+      });
+    });
+
+    const rows = Array.from(tasksByPerson.entries())
+      .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+      .map(([key, entry]) => this.buildRow(key, entry.name, entry.tasks, capacity));
+
+    if (unassigned.length > 0) {
+      rows.push({ ...this.buildRow('unassigned', 'Unassigned', unassigned, capacity), isUnassigned: true });
+    }
+
+    return rows;
+  }
+
+  private buildRow(key: string, name: string, tasks: GanttTask[], capacity: number): ResourceRow {
+    const { slots, laneCount } = this.assignLanes(tasks);
+    const load = this.computeLoad(tasks);
+
+    return {
+      key,
+      name,
+      slots,
+      laneCount,
+      load,
+      overallocatedDays: Object.values(load).filter(count => count > capacity).length
+    };
+  }
+
+  // Greedy interval packing: each task takes the first lane that is free by its start day
+  private assignLanes(tasks: GanttTask[]): { slots: ResourceSlot[]; laneCount: number } {
+    const laneEnds: moment.Moment[] = [];
+    const sorted = [...tasks].sort((a, b) =>
+      this.getStart(a).diff(this.getStart(b)) || moment(a.endDate).diff(moment(b.endDate))
+    );
+
+    const slots = sorted.map(task => {
+      const start = this.getStart(task);
+      let lane = laneEnds.findIndex(end => end.isBefore(start, 'day'));
+      if (lane === -1) {
+        lane = laneEnds.length;
+      }
+      laneEnds[lane] = moment(task.endDate).startOf('day');
+      return { task, lane };
+    });
+
+    return { slots, laneCount: Math.max(1, laneEnds.length) };
+  }
+
+  private computeLoad(tasks: GanttTask[]): { [day: string]: number } {
+    const load: { [day: string]: number } = {};
+
+    tasks.filter(task => !task.isMilestone).forEach(task => {
+      const day = moment(task.startDate).startOf('day');
+      const end = moment(task.endDate).startOf('day');
+      const calendar = task.calendar || STANDARD_CALENDAR;
+
+      while (day.isSameOrBefore(end, 'day')) {
+        if (workCalendar.isWorkingDay(calendar, day)) {
+          const key = day.format('YYYY-MM-DD');
+          load[key] = (load[key] || 0) + 1;
+        }
+        day.add(1, 'day');
+      }
+    });
+
+    return load;
+  }
+
+  // Milestones are drawn on their end date
+  private getStart(task: GanttTask): moment.Moment {
+    return moment(task.isMilestone ? task.endDate : task.startDate).startOf('day');
+  }
+}
+
+export default new ResourcePlanner();
@@ -0,0 +1,200 @@
+import moment from 'moment';
+import { DependencyType, GanttTask } from '../types';
+import workCalendar, { STANDARD_CALENDAR } from './workCalendar';
+import { buildChartRows } from '../utils/chartLayout';
+import { buildExportFilename, downloadBlob } from '../utils/download';
+import { escapeXml } from '../utils/xml';
+
+export interface ScheduleExportOptions {
+  title: string;
+}
+
+// MS Project's PredecessorLink/Type enumeration
+const MSP_LINK_TYPES: { [type in DependencyType]: number } = {
+  FF: 0,
+  FS: 1,
+  SF: 2,
+  SS: 3
+};
+
+// MS Project's DurationFormat/LagFormat value for days
+const MSP_FORMAT_DAYS = 7;
+const MSP_HOURS_PER_DAY = 8;
+
+// RFC 5545 content lines may not exceed 75 octets
+const ICS_MAX_LINE_OCTETS = 75;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Serializes processed tasks into schedule formats other tools understand.
+ * Rows are emitted in chart order so parents always precede their subitems.
+ */
+class ScheduleExporter {
+  exportMsProject(tasks: GanttTask[], options: ScheduleExportOptions): void {
+    const xml = this.buildMsProjectXml(tasks, options);
+    downloadBlob(new Blob([xml], { type: 'application/xml' }), buildExportFilename('xml'));
+  }
+
+  exportIcs(tasks: GanttTask[], options: ScheduleExportOptions): void {
+    const ics = this.buildIcs(tasks, options);
+    downloadBlob(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), buildExportFilename('ics'));
+  }
+
+  buildMsProjectXml(tasks: GanttTask[], options: ScheduleExportOptions): string {
+    const rows = this.getExportRows(tasks);
+    const uidByTaskId = new Map(rows.map(({ task }, index) => [task.id, index + 1]));
+    const parentIds = new Set(rows.map(({ task }) => task.parentId).filter(Boolean));
+
+    const projectStart = moment.min(rows.map(({ task }) => moment(task.startDate)));
+    const projectFinish = moment.max(rows.map(({ task }) => moment(task.endDate)));
+
+    const taskElements = rows.map(({ task, groupName, depth }, index) => {
+      const uid = index + 1;
+      // MS Project milestones are zero-length tasks on their finish date
+      const days = task.isMilestone ? 0 : this.getDurationDays(task);
+      const start = task.isMilestone ? task.endDate : task.startDate;
+      const notes = [task.boardName && `Board: ${task.boardName}`, `Group: ${groupName}`]
+        .filter(Boolean)
+        .join('\n');
+
+      const links = (task.dependencies || [])
+        .filter(dependency => uidByTaskId.has(dependency.predecessorId))
+        .map(dependency => [
+          '      <PredecessorLink>',
+          `        <PredecessorUID>${uidByTaskId.get(dependency.predecessorId)}</PredecessorUID>`,
+          `        <Type>${MSP_LINK_TYPES[dependency.type]}</Type>`,
+          // Lag is stored in tenths of a minute
+          `        <LinkLag>${(dependency.lagDays || 0) * MSP_HOURS_PER_DAY * 60 * 10}</LinkLag>`,
+          `        <LagFormat>${MSP_FORMAT_DAYS}</LagFormat>`,
+          '      </PredecessorLink>'
+        ].join('\n'));
+
+      return [
+        '    <Task>',
+        `      <UID>${uid}</UID>`,
+        `      <ID>${uid}</ID>`,
+        `      <Name>${escapeXml(task.name)}</Name>`,
+        `      <OutlineLevel>${depth + 1}</OutlineLevel>`,
+        `      <Start>${this.formatMspDate(start, '08:00:00')}</Start>`,
+        `      <Finish>${this.formatMspDate(task.endDate, task.isMilestone ? '08:00:00' : '17:00:00')}</Finish>`,
+        `      <Duration>PT${days * MSP_HOURS_PER_DAY}H0M0S</Duration>`,
+        `      <DurationFormat>${MSP_FORMAT_DAYS}</DurationFormat>`,
+        `      <PercentComplete>${Math.round(task.progress || 0)}</PercentComplete>`,
+        `      <Milestone>${task.isMilestone ? 1 : 0}</Milestone>`,
+        `      <Summary>${parentIds.has(task.id) ? 1 : 0}</Summary>`,
+        // Manually scheduled so MS Project keeps the dates from monday
+        '      <Manual>1</Manual>',
+        `      <Notes>${escapeXml(notes)}</Notes>`,
+        ...links,
+        '    </Task>'
+      ].join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+      '<Project xmlns="http://schemas.microsoft.com/project">',
+      `  <Name>${escapeXml(options.title)}.xml</Name>`,
+      `  <Title>${escapeXml(options.title)}</Title>`,
+      `  <CreationDate>${moment().format('YYYY-MM-DDTHH:mm:ss')}</CreationDate>`,
+      '  <ScheduleFromStart>1</ScheduleFromStart>',
+      ...(rows.length > 0 ? [
+        `  <StartDate>${this.formatMspDate(projectStart, '08:00:00')}</StartDate>`,
+        `  <FinishDate>${this.formatMspDate(projectFinish, '17:00:00')}</FinishDate>`
+      ] : []),
+      `  <MinutesPerDay>${MSP_HOURS_PER_DAY * 60}</MinutesPerDay>`,
+      '  <Tasks>',
+      ...taskElements,
+      '  </Tasks>',
+      '</Project>',
+      ''
+    ].join('\n');
+  }
+
+  buildIcs(tasks: GanttTask[], options: ScheduleExportOptions): string {
+    const stamp = moment.utc().format('YYYYMMDDTHHmmss[Z]');
+
+    const events = this.getExportRows(tasks).flatMap(({ task, groupName }) => {
+      const description = [
+        task.boardName && `Board: ${task.boardName}`,
+        `Group: ${groupName}`,
+        task.progress !== undefined && `Progress: ${Math.round(task.progress)}%`
+      ].filter(Boolean).join('\n');
+      const categories = [task.isMilestone && 'Milestone', task.colorLabel].filter(Boolean) as string[];
+      const start = task.isMilestone ? task.endDate : task.startDate;
+
+      return [
+        'BEGIN:VEVENT',
+        `UID:${task.id}@enhanced-gantt`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${moment(start).format('YYYYMMDD')}`,
+        // All-day events end on the day after the last day
+        `DTEND;VALUE=DATE:${moment(task.endDate).add(1, 'day').format('YYYYMMDD')}`,
+        `SUMMARY:${this.escapeIcsText(task.name)}`,
+        `DESCRIPTION:${this.escapeIcsText(description)}`,
+        ...(categories.length > 0 ? [`CATEGORIES:${categories.map(category => this.escapeIcsText(category)).join(',')}`] : []),
+        'END:VEVENT'
+      ];
+    });
+
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Enhanced Gantt//monday.com//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${this.escapeIcsText(options.title)}`,
+      ...events,
+      'END:VCALENDAR'
+    ];
+
+    return lines.map(line => this.foldIcsLine(line)).join('\r\n') + '\r\n';
+  }
+
+  private getExportRows(tasks: GanttTask[]) {
+    return buildChartRows(tasks.filter(task => task.startDate && task.endDate));
+  }
+
+  // MS Project durations are working time
+  private getDurationDays(task: GanttTask): number {
+    return Math.max(1, workCalendar.countWorkingDays(task.calendar || STANDARD_CALENDAR, task.startDate, task.endDate));
+  }
+
+  private formatMspDate(date: moment.MomentInput, time: string): string {
+    return `${moment(date).format('YYYY-MM-DD')}T${time}`;
+  }
+
+  private escapeIcsText(value: string): string {
+    return value
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  // Continuation lines start with a space, which counts towards their length
+  private foldIcsLine(line: string): string {
+    const parts: string[] = [];
+    let current = '';
+    let currentOctets = 0;
+
+    for (const char of line) {
+      const octets = textEncoder.encode(char).length;
+      const limit = parts.length === 0 ? ICS_MAX_LINE_OCTETS : ICS_MAX_LINE_OCTETS - 1;
+
+      if (currentOctets + octets > limit) {
+        parts.push(current);
+        current = '';
+        currentOctets = 0;
+      }
+
+      current += char;
+      currentOctets += octets;
+    }
+
+    parts.push(current);
+    return parts.join('\r\n ');
+  }
+}
+
+export default new ScheduleExporter();
@@ -0,0 +1,503 @@
+import moment from 'moment';
+import { GanttTask, MondayBoard, MondayColumn, MondayUser } from '../types';
+import mondayService from './mondayService';
+
+export type ImportFormat = 'csv' | 'msp';
+
+export interface ImportRecord {
+  key: string;
+  values: { [field: string]: string };
+  // Only known for MS Project files, where the outline defines the hierarchy
+  parentKey?: string;
+}
+
+export interface ImportSource {
+  format: ImportFormat;
+  fields: string[];
+  records: ImportRecord[];
+}
+
+/**
+ * Which file field feeds which part of the new items. Column ids refer to
+ * the target board; subitems get the same-titled columns of the subitems board.
+ */
+export interface ImportMapping {
+  nameField: string;
+  startField?: string;
+  endField?: string;
+  // CSV only: a field holding the name of the parent row
+  parentField?: string;
+  groupId?: string;
+  dateColumnId?: string;
+  statusField?: string;
+  statusColumnId?: string;
+  peopleField?: string;
+  peopleColumnId?: string;
+}
+
+export interface ImportPlanItem {
+  key: string;
+  name: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  status?: string;
+  people: string[];
+  parentKey?: string;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  created: number;
+  failed: string[];
+  unmatchedPeople: string[];
+}
+
+const DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY/MM/DD',
+  'M/D/YYYY',
+  'M/D/YY',
+  'D.M.YYYY',
+  'D-MMM-YYYY',
+  'D MMM YYYY',
+  'MMM D, YYYY',
+  'ddd M/D/YY'
+];
+
+// Tried in order: exact names first, so a "Dependencies" or "Calendar" field
+// listed before "Finish" isn't taken for the end date
+const FIELD_PATTERNS = {
+  name: [/^(task ?)?name$|^title$|^task$|^summary$/i],
+  start: [/^(start|begin)( date)?$/i, /start|begin/i],
+  end: [/^(finish|end|due)( date)?$/i, /finish|end|due/i],
+  parent: [/parent/i],
+  status: [/^(status|state)$/i, /status|state/i],
+  people: [/resource|owner|assignee|assigned|person|people/i]
+};
+
+// MS Project marks unassigned work with this resource UID
+const MSP_UNASSIGNED_RESOURCE = '-65535';
+
+const splitNames = (text: string): string[] =>
+  text.split(/[,;]/).map(name => name.trim()).filter(Boolean);
+
+/**
+ * Reads vendor schedules (CSV or MS Project XML) and turns them into monday
+ * items. monday only nests one level deep, so anything below the first
+ * outline level becomes a subitem of its top-level ancestor.
+ */
+class ScheduleImporter {
+  async parseFile(file: File): Promise<ImportSource> {
+    const text = await file.text();
+    const isXml = /\.xml$/i.test(file.name) || text.trimStart().startsWith('<');
+    return isXml ? this.parseMsProjectXml(text) : this.parseCsv(text);
+  }
+
+  parseCsv(text: string): ImportSource {
+    const content = text.replace(/^﻿/, '');
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t']
+      .reduce((best, candidate) => firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows = this.splitCsvRows(content, delimiter)
+      .filter(row => row.some(cell => cell.trim() !== ''));
+    if (rows.length === 0) {
+      throw new Error('The file is empty');
+    }
+
+    const fields = rows[0].map((header, index) => header.trim() || `Column ${index + 1}`);
+    const records = rows.slice(1).map((row, index) => ({
+      key: `import-${index}`,
+      values: fields.reduce((values, field, column) => {
+        values[field] = (row[column] || '').trim();
+        return values;
+      }, {} as { [field: string]: string })
+    }));
+
+    return { format: 'csv', fields, records };
+  }
+
+  parseMsProjectXml(text: string): ImportSource {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('The file is not valid XML');
+    }
+    if (doc.documentElement.localName !== 'Project') {
+      throw new Error('The file is not an MS Project XML export');
+    }
+
+    const resourceNames = new Map<string, string>();
+    Array.from(doc.getElementsByTagName('Resource')).forEach(resource => {
+      const uid = this.childText(resource, 'UID');
+      const name = this.childText(resource, 'Name');
+      if (uid && name) resourceNames.set(uid, name);
+    });
+
+    const assigneesByTask = new Map<string, string[]>();
+    Array.from(doc.getElementsByTagName('Assignment')).forEach(assignment => {
+      const taskUid = this.childText(assignment, 'TaskUID');
+      const resourceUid = this.childText(assignment, 'ResourceUID');
+      const name = resourceNames.get(resourceUid);
+      if (!taskUid || resourceUid === MSP_UNASSIGNED_RESOURCE || !name) return;
+      assigneesByTask.set(taskUid, [...(assigneesByTask.get(taskUid) || []), name]);
+    });
+
+    const fields = ['Name', 'Start', 'Finish', '% Complete', 'Resource Names', 'Notes'];
+    const records: ImportRecord[] = [];
+    let topLevelKey: string | undefined;
+
+    Array.from(doc.getElementsByTagName('Task')).forEach(task => {
+      const uid = this.childText(task, 'UID');
+      const outlineLevel = parseInt(this.childText(task, 'OutlineLevel') || '1', 10);
+
+      // Level 0 is the project summary task
+      if (outlineLevel < 1 || this.childText(task, 'IsNull') === '1') return;
+
+      const key = `import-${uid || records.length}`;
+      if (outlineLevel === 1) topLevelKey = key;
+
+      records.push({
+        key,
+        parentKey: outlineLevel > 1 ? topLevelKey : undefined,
+        values: {
+          'Name': this.childText(task, 'Name'),
+          'Start': this.childText(task, 'Start'),
+          'Finish': this.childText(task, 'Finish'),
+          '% Complete': this.childText(task, 'PercentComplete'),
+          'Resource Names': (assigneesByTask.get(uid) || []).join(', '),
+          'Notes': this.childText(task, 'Notes')
+        }
+      });
+    });
+
+    return { format: 'msp', fields, records };
+  }
+
+  /**
+   * Picks fields and columns by name and type so the common cases need no
+   * manual mapping.
+   */
+  guessMapping(source: ImportSource, board: MondayBoard): ImportMapping {
+    const findField = (patterns: RegExp[], exclude: string[] = []) =>
+      patterns.map(pattern => source.fields.find(field => pattern.test(field) && !exclude.includes(field)))
+        .find(Boolean);
+    const findColumn = (types: string[]) =>
+      types.map(type => board.columns.find(column => !column.archived && column.type === type))
+        .find(Boolean)?.id;
+
+    const nameField = findField(FIELD_PATTERNS.name) || source.fields[0];
+    const startField = findField(FIELD_PATTERNS.start, [nameField]);
+    const endField = findField(FIELD_PATTERNS.end, [nameField, startField || '']);
+
+    return {
+      nameField,
+      startField,
+      endField,
+      parentField: source.format === 'csv' ? findField(FIELD_PATTERNS.parent, [nameField]) : undefined,
+      groupId: board.groups[0]?.id,
+      dateColumnId: findColumn(['timeline', 'date']),
+      statusField: findField(FIELD_PATTERNS.status),
+      statusColumnId: findColumn(['status']),
+      peopleField: findField(FIELD_PATTERNS.people),
+      peopleColumnId: findColumn(['people', 'multiple_person'])
+    };
+  }
+
+  buildPlan(source: ImportSource, mapping: ImportMapping): ImportPlanItem[] {
+    const read = (record: ImportRecord, field?: string) => field ? record.values[field] || '' : '';
+    const records = source.records.filter(record => read(record, mapping.nameField).trim() !== '');
+    const keys = new Set(records.map(record => record.key));
+
+    // CSV parents are referenced by name; resolve them to their top-level ancestor
+    const recordsByName = new Map<string, ImportRecord>();
+    records.forEach(record => {
+      const name = read(record, mapping.nameField).trim().toLowerCase();
+      if (!recordsByName.has(name)) recordsByName.set(name, record);
+    });
+
+    const resolveCsvParent = (record: ImportRecord): string | undefined => {
+      const visited = new Set<string>([record.key]);
+      let parent = recordsByName.get(read(record, mapping.parentField).trim().toLowerCase());
+
+      while (parent && !visited.has(parent.key)) {
+        visited.add(parent.key);
+        const grandparent = recordsByName.get(read(parent, mapping.parentField).trim().toLowerCase());
+        if (!grandparent || visited.has(grandparent.key)) return parent.key;
+        parent = grandparent;
+      }
+
+      return undefined;
+    };
+
+    return records.map(record => {
+      let startDate = this.parseDate(read(record, mapping.startField));
+      let endDate = this.parseDate(read(record, mapping.endField));
+
+      if (!startDate) startDate = endDate;
+      if (!endDate) endDate = startDate;
+      if (startDate && endDate && endDate < startDate) {
+        [startDate, endDate] = [endDate, startDate];
+      }
+
+      const parentKey = source.format === 'msp'
+        ? record.parentKey
+        : mapping.parentField ? resolveCsvParent(record) : undefined;
+
+      return {
+        key: record.key,
+        name: read(record, mapping.nameField).trim(),
+        startDate,
+        endDate,
+        status: read(record, mapping.statusField).trim() || undefined,
+        people: splitNames(read(record, mapping.peopleField)),
+        parentKey: parentKey && keys.has(parentKey) ? parentKey : undefined
+      };
+    });
+  }
+
+  buildPreviewTasks(plan: ImportPlanItem[], board: MondayBoard, mapping: ImportMapping): GanttTask[] {
+    const group = board.groups.find(g => g.id === mapping.groupId) || board.groups[0];
+
+    const tasks: GanttTask[] = plan.map(item => ({
+      id: item.key,
+      name: item.name,
+      startDate: item.startDate,
+      endDate: item.endDate,
+      colorLabel: item.status,
+      group: group?.title,
+      boardId: board.id,
+      boardName: board.name,
+      parentId: item.parentKey,
+      originalItem: { id: item.key, name: item.name, column_values: [] }
+    }));
+
+    // Parents list their subitems like tasks loaded from monday do
+    tasks.forEach(task => {
+      const children = tasks.filter(child => child.parentId === task.id);
+      if (children.length > 0) {
+        task.children = children;
+      }
+    });
+
+    return tasks;
+  }
+
+  /**
+   * Creates the planned items one by one so a failure only loses that row.
+   * Subitems are created after all top-level items exist.
+   */
+  async runImport(
+    plan: ImportPlanItem[],
+    board: MondayBoard,
+    mapping: ImportMapping,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportResult> {
+    const result: ImportResult = { created: 0, failed: [], unmatchedPeople: [] };
+    const progress: ImportProgress = { done: 0, total: plan.length };
+    const createdIds = new Map<string, string>();
+
+    const users = mapping.peopleColumnId && plan.some(item => item.people.length > 0)
+      ? await mondayService.getUsers()
+      : [];
+    const unmatchedPeople = new Set<string>();
+
+    const step = () => {
+      progress.done++;
+      onProgress?.({ ...progress });
+    };
+
+    for (const item of plan.filter(planItem => !planItem.parentKey)) {
+      try {
+        const values = this.buildColumnValues(item, board.columns, mapping, users, unmatchedPeople);
+        createdIds.set(item.key, await mondayService.createItem(board.id, item.name, values, mapping.groupId));
+        result.created++;
+      } catch (error) {
+        result.failed.push(item.name);
+      }
+      step();
+    }
+
+    let subitemColumns = await this.getSubitemColumns(board);
+
+    for (const item of plan.filter(planItem => planItem.parentKey)) {
+      const parentId = createdIds.get(item.parentKey!);
+
+      try {
+        if (!parentId) {
+          throw new Error(`Parent of ${item.name} was not created`);
+        }
+
+        const subitemMapping = subitemColumns && this.mapToSubitemColumns(mapping, board.columns, subitemColumns);
+        const values = subitemMapping
+          ? this.buildColumnValues(item, subitemColumns!, subitemMapping, users, unmatchedPeople)
+          : {};
+        const subitem = await mondayService.createSubitem(parentId, item.name, values);
+
+        // A board without subitems gets its subitems board with the first one
+        if (!subitemColumns) {
+          subitemColumns = await this.getBoardColumns(subitem.boardId);
+          const lateMapping = this.mapToSubitemColumns(mapping, board.columns, subitemColumns);
+          const lateValues = this.buildColumnValues(item, subitemColumns, lateMapping, users, unmatchedPeople);
+          if (Object.keys(lateValues).length > 0) {
+            await mondayService.changeMultipleColumnValues(subitem.boardId, subitem.id, lateValues);
+          }
+        }
+
+        result.created++;
+      } catch (error) {
+        result.failed.push(item.name);
+      }
+      step();
+    }
+
+    result.unmatchedPeople = Array.from(unmatchedPeople);
+    return result;
+  }
+
+  parseDate(text: string): Date | null {
+    const value = text.trim();
+    if (!value) return null;
+
+    // ISO timestamps (MS Project) carry a time we don't want to shift the day
+    const iso = value.match(/^(\d{4}-\d{2}-\d{2})(T|\s|$)/);
+    if (iso) {
+      return moment(iso[1], 'YYYY-MM-DD').toDate();
+    }
+
+    const parsed = moment(value, DATE_FORMATS, true);
+    return parsed.isValid() ? parsed.toDate() : null;
+  }
+
+  private buildColumnValues(
+    item: ImportPlanItem,
+    columns: MondayColumn[],
+    mapping: ImportMapping,
+    users: MondayUser[],
+    unmatchedPeople: Set<string>
+  ): { [columnId: string]: any } {
+    const values: { [columnId: string]: any } = {};
+
+    const dateColumn = columns.find(column => column.id === mapping.dateColumnId);
+    if (dateColumn && item.startDate && item.endDate) {
+      values[dateColumn.id] = dateColumn.type === 'timeline'
+        ? { from: moment(item.startDate).format('YYYY-MM-DD'), to: moment(item.endDate).format('YYYY-MM-DD') }
+        : { date: moment(item.startDate).format('YYYY-MM-DD') };
+    }
+
+    if (mapping.statusColumnId && item.status) {
+      values[mapping.statusColumnId] = { label: item.status };
+    }
+
+    if (mapping.peopleColumnId && item.people.length > 0) {
+      const personIds = item.people
+        .map(person => {
+          const wanted = person.toLowerCase();
+          const user = users.find(u => u.name.toLowerCase() === wanted || u.email.toLowerCase() === wanted);
+          if (!user) unmatchedPeople.add(person);
+          return user?.id;
+        })
+        .filter((id): id is string => !!id);
+
+      if (personIds.length > 0) {
+        values[mapping.peopleColumnId] = {
+          personsAndTeams: personIds.map(id => ({ id: Number(id), kind: 'person' }))
+        };
+      }
+    }
+
+    return values;
+  }
+
+  private mapToSubitemColumns(
+    mapping: ImportMapping,
+    boardColumns: MondayColumn[],
+    subitemColumns: MondayColumn[]
+  ): ImportMapping {
+    const match = (columnId?: string) => {
+      const column = boardColumns.find(c => c.id === columnId);
+      if (!column) return undefined;
+      return (
+        subitemColumns.find(c => c.title === column.title && c.type === column.type) ||
+        subitemColumns.find(c => c.type === column.type)
+      )?.id;
+    };
+
+    return {
+      ...mapping,
+      dateColumnId: match(mapping.dateColumnId),
+      statusColumnId: match(mapping.statusColumnId),
+      peopleColumnId: match(mapping.peopleColumnId)
+    };
+  }
+
+  // The subtasks column's settings point at the board holding the subitems
+  private async getSubitemColumns(board: MondayBoard): Promise<MondayColumn[] | null> {
+    const subtasksColumn = board.columns.find(column => column.type === 'subtasks');
+    if (!subtasksColumn?.settings_str) return null;
+
+    try {
+      const boardId = JSON.parse(subtasksColumn.settings_str).boardIds?.[0];
+      return boardId ? await this.getBoardColumns(String(boardId)) : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async getBoardColumns(boardId: string): Promise<MondayColumn[]> {
+    const [board] = await mondayService.getBoards([parseInt(boardId)]);
+    return board?.columns || [];
+  }
+
+  private splitCsvRows(content: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (inQuotes) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  private childText(element: Element, tagName: string): string {
+    const child = Array.from(element.children).find(node => node.localName === tagName);
+    return child?.textContent?.trim() || '';
+  }
+}
+
+export default new ScheduleImporter();
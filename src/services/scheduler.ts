@@ -0,0 +1,182 @@
+import moment from 'moment';
+import { GanttTask, SchedulingMode, TaskDateChange, TaskDependency, WorkCalendar } from '../types';
+import workCalendar, { STANDARD_CALENDAR } from './workCalendar';
+
+interface TaskDates {
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Moves the tasks that depend on a moved task. Each successor keeps its
+ * length in working days and is placed by its link types and lags (also
+ * working days) on its own calendar, the same rules the critical path uses.
+ */
+class Scheduler {
+  /**
+   * New dates for every task that follows, directly or through other links,
+   * the `moved` tasks. Only tasks whose dates change are returned, and the
+   * moved tasks themselves are left out and stay where they were put.
+   */
+  cascade(tasks: GanttTask[], moved: TaskDateChange[], mode: SchedulingMode): TaskDateChange[] {
+    if (mode === 'none' || moved.length === 0) return [];
+
+    const tasksById = new Map(tasks.filter(task => task.startDate && task.endDate).map(task => [task.id, task]));
+    const successorsById = new Map<string, GanttTask[]>();
+    tasksById.forEach(task => {
+      (task.dependencies || []).forEach(dependency => {
+        if (!tasksById.has(dependency.predecessorId)) return;
+        if (!successorsById.has(dependency.predecessorId)) {
+          successorsById.set(dependency.predecessorId, []);
+        }
+        successorsById.get(dependency.predecessorId)!.push(task);
+      });
+    });
+
+    const movedIds = new Set(moved.map(change => change.task.id));
+    const dates = new Map<string, TaskDates>(
+      moved.map(({ task, startDate, endDate }) => [task.id, { startDate, endDate }] as [string, TaskDates])
+    );
+    const getDates = (task: GanttTask): TaskDates =>
+      dates.get(task.id) || { startDate: task.startDate!, endDate: task.endDate! };
+
+    // Loops already in the data would never settle, so each task moves a bounded number of times
+    const moveCounts = new Map<string, number>();
+    const queue = Array.from(movedIds);
+
+    while (queue.length > 0) {
+      const taskId = queue.shift()!;
+
+      (successorsById.get(taskId) || []).forEach(successor => {
+        // Tasks spanning their children have no dates of their own to move
+        if (movedIds.has(successor.id) || !successor.dateSource || successor.datesFromChildren) return;
+
+        const current = getDates(successor);
+        const next = this.scheduleTask(successor, current, tasksById, getDates, mode);
+        if (!next || (moment(next.startDate).isSame(current.startDate, 'day') && moment(next.endDate).isSame(current.endDate, 'day'))) {
+          return;
+        }
+
+        const moveCount = (moveCounts.get(successor.id) || 0) + 1;
+        if (moveCount > tasksById.size) return;
+
+        moveCounts.set(successor.id, moveCount);
+        dates.set(successor.id, next);
+        queue.push(successor.id);
+      });
+    }
+
+    movedIds.forEach(taskId => dates.delete(taskId));
+    return Array.from(dates.entries()).map(([taskId, taskDates]) => ({ task: tasksById.get(taskId)!, ...taskDates }));
+  }
+
+  /**
+   * The task's dates moved by `days` calendar days, as when dragging its bar:
+   * the start snaps onto a working day in the direction of the move and the
+   * length in working days is kept. Milestones move their end date.
+   */
+  shift(task: GanttTask, days: number): TaskDates {
+    const calendar = task.calendar || STANDARD_CALENDAR;
+    const startDate = new Date(task.startDate!);
+    const endDate = new Date(task.endDate!);
+    if (days === 0) return { startDate, endDate };
+
+    const direction = days < 0 ? -1 : 1;
+
+    if (task.isMilestone) {
+      const newEndDate = workCalendar.snapToWorkingDay(calendar, moment(endDate).add(days, 'days'), direction);
+      return {
+        startDate: moment(startDate).add(moment(newEndDate).diff(moment(endDate).startOf('day'), 'days'), 'days').toDate(),
+        endDate: newEndDate
+      };
+    }
+
+    const workingDays = Math.max(1, workCalendar.countWorkingDays(calendar, startDate, endDate));
+    const newStartDate = workCalendar.snapToWorkingDay(calendar, moment(startDate).add(days, 'days'), direction);
+    return { startDate: newStartDate, endDate: workCalendar.addWorkingDays(calendar, newStartDate, workingDays - 1) };
+  }
+
+  /**
+   * The task's new dates after its predecessors moved. 'strict' shifts the
+   * task by as many working days as the start its links require moved, so
+   * any slack it had is kept; 'push' only moves it later when a link is no
+   * longer met. Either way the task never starts before its links allow.
+   */
+  private scheduleTask(
+    task: GanttTask,
+    current: TaskDates,
+    tasksById: Map<string, GanttTask>,
+    getDates: (task: GanttTask) => TaskDates,
+    mode: SchedulingMode
+  ): TaskDates | null {
+    const calendar = task.calendar || STANDARD_CALENDAR;
+    const duration = Math.max(1, workCalendar.countWorkingDays(calendar, current.startDate, current.endDate));
+
+    let earliest: Date | null = null;
+    let shift: number | null = null;
+
+    for (const dependency of task.dependencies || []) {
+      const predecessor = tasksById.get(dependency.predecessorId);
+      if (!predecessor) continue;
+
+      const required = this.requiredStart(dependency, getDates(predecessor), calendar, duration);
+      if (!earliest || required.getTime() > earliest.getTime()) {
+        earliest = required;
+      }
+
+      const previous = this.requiredStart(
+        dependency,
+        { startDate: predecessor.startDate!, endDate: predecessor.endDate! },
+        calendar,
+        duration
+      );
+      const linkShift = workCalendar.workingDaysBetween(calendar, previous, required);
+      if (linkShift !== 0 && (shift === null || linkShift > shift)) {
+        shift = linkShift;
+      }
+    }
+
+    if (!earliest) return null;
+
+    let startDate = earliest;
+    if (mode === 'strict') {
+      const shifted = shift === null
+        ? current.startDate
+        : workCalendar.addWorkingDays(calendar, workCalendar.snapToWorkingDay(calendar, task.startDate!), shift);
+      if (moment(shifted).isAfter(earliest, 'day')) startDate = shifted;
+    } else if (!moment(earliest).isAfter(current.startDate, 'day')) {
+      return null;
+    }
+
+    return {
+      startDate,
+      endDate: task.isMilestone ? startDate : workCalendar.addWorkingDays(calendar, startDate, duration - 1)
+    };
+  }
+
+  // The earliest start one link allows the task, for the given predecessor dates
+  private requiredStart(
+    dependency: TaskDependency,
+    predecessorDates: TaskDates,
+    calendar: WorkCalendar,
+    duration: number
+  ): Date {
+    const startForEnd = (end: Date) => workCalendar.addWorkingDays(calendar, end, -(duration - 1));
+    const predecessorStart = workCalendar.snapToWorkingDay(calendar, predecessorDates.startDate);
+    const predecessorEnd = workCalendar.snapToWorkingDay(calendar, predecessorDates.endDate, -1);
+    const lag = dependency.lagDays || 0;
+
+    switch (dependency.type) {
+      case 'SS':
+        return workCalendar.addWorkingDays(calendar, predecessorStart, lag);
+      case 'FF':
+        return startForEnd(workCalendar.addWorkingDays(calendar, predecessorEnd, lag));
+      case 'SF':
+        return startForEnd(workCalendar.addWorkingDays(calendar, predecessorStart, lag - 1));
+      default:
+        return workCalendar.addWorkingDays(calendar, predecessorEnd, 1 + lag);
+    }
+  }
+}
+
+export default new Scheduler();
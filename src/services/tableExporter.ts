@@ -0,0 +1,94 @@
+import * as XLSX from 'xlsx';
+import moment from 'moment';
+import { GanttTask, MirrorColumnMapping } from '../types';
+import workCalendar, { STANDARD_CALENDAR } from './workCalendar';
+import { buildChartRows } from '../utils/chartLayout';
+import { buildExportFilename, downloadBlob } from '../utils/download';
+
+type CellValue = string | number | Date | null;
+
+interface TaskTable {
+  headers: string[];
+  rows: CellValue[][];
+}
+
+/**
+ * Flattens processed tasks into spreadsheet rows, in the same grouped and
+ * sorted order the chart shows them.
+ */
+class TableExporter {
+  buildTable(tasks: GanttTask[], mirrorColumns: MirrorColumnMapping[]): TaskTable {
+    const tasksById = new Map(tasks.map(task => [task.id, task]));
+
+    const headers = [
+      'Name',
+      'Board',
+      'Group',
+      'Start',
+      'End',
+      'Duration (working days)',
+      'Progress (%)',
+      'Milestone',
+      'Color label',
+      'Parent',
+      ...mirrorColumns.map(mapping => `${mapping.mirrorColumnTitle} (${mapping.sourceBoardName})`)
+    ];
+
+    const rows = buildChartRows(tasks).map(({ task, groupName }) => [
+      task.name,
+      task.boardName || '',
+      groupName,
+      task.startDate,
+      task.endDate,
+      task.startDate && task.endDate
+        ? workCalendar.countWorkingDays(task.calendar || STANDARD_CALENDAR, task.startDate, task.endDate)
+        : null,
+      task.progress ?? 0,
+      task.isMilestone ? 'Yes' : '',
+      task.colorLabel || '',
+      task.parentId ? tasksById.get(task.parentId)?.name || '' : '',
+      ...mirrorColumns.map(mapping => task.mirrorData?.[mapping.mirrorColumnId]?.displayValue || '')
+    ]);
+
+    return { headers, rows };
+  }
+
+  exportCsv(tasks: GanttTask[], mirrorColumns: MirrorColumnMapping[]): void {
+    const { headers, rows } = this.buildTable(tasks, mirrorColumns);
+    const lines = [headers, ...rows].map(row => row.map(cell => this.toCsvCell(cell)).join(','));
+
+    // The BOM makes Excel open the file as UTF-8
+    const blob = new Blob(['﻿' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, buildExportFilename('csv'));
+  }
+
+  exportXlsx(tasks: GanttTask[], mirrorColumns: MirrorColumnMapping[]): void {
+    const { headers, rows } = this.buildTable(tasks, mirrorColumns);
+    const sheet = XLSX.utils.aoa_to_sheet([headers, ...rows], { cellDates: true, dateNF: 'yyyy-mm-dd' });
+
+    sheet['!cols'] = headers.map((header, index) => ({
+      wch: Math.min(50, Math.max(
+        header.length,
+        ...rows.map(row => row[index] instanceof Date ? 10 : String(row[index] ?? '').length)
+      ) + 2)
+    }));
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Tasks');
+
+    const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+    const blob = new Blob([data], {
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    });
+    downloadBlob(blob, buildExportFilename('xlsx'));
+  }
+
+  private toCsvCell(cell: CellValue): string {
+    if (cell === null || cell === undefined) return '';
+
+    const text = cell instanceof Date ? moment(cell).format('YYYY-MM-DD') : String(cell);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
+
+export default new TableExporter();
@@ -0,0 +1,195 @@
+import moment from 'moment';
+import { CalendarHoliday, GanttSettings, WorkCalendar } from '../types';
+
+// Used when no calendars are configured: Monday to Friday, no holidays
+export const STANDARD_CALENDAR: WorkCalendar = {
+  id: 'standard',
+  name: 'Standard (Mon–Fri)',
+  workDays: [1, 2, 3, 4, 5],
+  holidays: []
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Working-day arithmetic for the widget's calendars. Dates are handled as
+ * whole local days; internally they are counted as days since the epoch so
+ * long ranges don't need a moment per day.
+ */
+class WorkCalendarService {
+  private holidayCache = new WeakMap<WorkCalendar, Set<number>>();
+
+  getCalendars(settings: GanttSettings): WorkCalendar[] {
+    return settings.calendars && settings.calendars.length > 0 ? settings.calendars : [STANDARD_CALENDAR];
+  }
+
+  /**
+   * The calendar for a board, falling back to the default calendar and then
+   * to the first configured one.
+   */
+  resolveCalendar(settings: GanttSettings, boardId?: string): WorkCalendar {
+    const calendars = this.getCalendars(settings);
+    const calendarId = (boardId && settings.boardCalendars?.[boardId]) || settings.defaultCalendarId;
+    return calendars.find(calendar => calendar.id === calendarId) || calendars[0];
+  }
+
+  createCalendar(name: string): WorkCalendar {
+    return {
+      id: `calendar-${Date.now()}`,
+      name,
+      workDays: [...STANDARD_CALENDAR.workDays],
+      holidays: []
+    };
+  }
+
+  isWorkingDay(calendar: WorkCalendar, date: moment.MomentInput): boolean {
+    return this.isWorkingDayNumber(calendar, this.toDayNumber(date));
+  }
+
+  /** Working days from `start` to `end`, both included. */
+  countWorkingDays(calendar: WorkCalendar, start: moment.MomentInput, end: moment.MomentInput): number {
+    const startDay = this.toDayNumber(start);
+    const endDay = this.toDayNumber(end);
+    return endDay < startDay ? 0 : this.countRange(calendar, startDay, endDay + 1);
+  }
+
+  /** Working days in [from, to), negative when `to` is before `from`. */
+  workingDaysBetween(calendar: WorkCalendar, from: moment.MomentInput, to: moment.MomentInput): number {
+    const fromDay = this.toDayNumber(from);
+    const toDay = this.toDayNumber(to);
+    return toDay >= fromDay
+      ? this.countRange(calendar, fromDay, toDay)
+      : -this.countRange(calendar, toDay, fromDay);
+  }
+
+  /**
+   * Moves `days` working days away from `date` (backwards when negative),
+   * skipping non-working days on the way.
+   */
+  addWorkingDays(calendar: WorkCalendar, date: moment.MomentInput, days: number): Date {
+    let day = this.toDayNumber(date);
+    const step = days < 0 ? -1 : 1;
+    let remaining = Math.abs(Math.round(days));
+
+    if (!this.hasWorkingDays(calendar)) {
+      return this.fromDayNumber(day + step * remaining);
+    }
+
+    while (remaining > 0) {
+      day += step;
+      if (this.isWorkingDayNumber(calendar, day)) remaining--;
+    }
+
+    return this.fromDayNumber(day);
+  }
+
+  /** The nearest working day on or after (or before, with -1) `date`. */
+  snapToWorkingDay(calendar: WorkCalendar, date: moment.MomentInput, direction: 1 | -1 = 1): Date {
+    let day = this.toDayNumber(date);
+
+    if (this.hasWorkingDays(calendar)) {
+      while (!this.isWorkingDayNumber(calendar, day)) day += direction;
+    }
+
+    return this.fromDayNumber(day);
+  }
+
+  getHoliday(calendar: WorkCalendar, date: moment.MomentInput): CalendarHoliday | undefined {
+    const key = moment(date).format('YYYY-MM-DD');
+    return calendar.holidays.find(holiday => holiday.date === key);
+  }
+
+  /**
+   * Reads all-day events from an iCalendar file as holidays. Multi-day
+   * events become one holiday per day; DTEND is exclusive as in RFC 5545.
+   */
+  parseIcsHolidays(text: string): CalendarHoliday[] {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const holidays = new Map<string, CalendarHoliday>();
+    let event: { start?: moment.Moment; end?: moment.Moment; name?: string } | null = null;
+
+    lines.forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator === -1) return;
+
+      const name = line.slice(0, separator).split(';')[0].toUpperCase();
+      const value = line.slice(separator + 1).trim();
+
+      if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+        event = {};
+      } else if (name === 'END' && value.toUpperCase() === 'VEVENT' && event) {
+        const { start, end, name: summary } = event;
+        if (start && start.isValid()) {
+          const last = end && end.isValid() && end.isAfter(start, 'day') ? end.clone().subtract(1, 'day') : start;
+          for (const day = start.clone(); day.isSameOrBefore(last, 'day'); day.add(1, 'day')) {
+            const date = day.format('YYYY-MM-DD');
+            if (!holidays.has(date)) holidays.set(date, { date, name: summary });
+          }
+        }
+        event = null;
+      } else if (event) {
+        if (name === 'DTSTART') event.start = moment(value.slice(0, 8), 'YYYYMMDD');
+        if (name === 'DTEND') event.end = moment(value.slice(0, 8), 'YYYYMMDD');
+        if (name === 'SUMMARY') event.name = value.replace(/\\n/gi, ' ').replace(/\\([\\;,])/g, '$1');
+      }
+    });
+
+    return Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  private countRange(calendar: WorkCalendar, fromDay: number, toDay: number): number {
+    const total = toDay - fromDay;
+    if (!this.hasWorkingDays(calendar)) return total;
+
+    // Whole weeks contribute the same number of work days each
+    const fullWeeks = Math.floor(total / 7);
+    let count = fullWeeks * calendar.workDays.length;
+    for (let day = fromDay + fullWeeks * 7; day < toDay; day++) {
+      if (calendar.workDays.includes(this.weekday(day))) count++;
+    }
+
+    this.getHolidayDays(calendar).forEach(holiday => {
+      if (holiday >= fromDay && holiday < toDay && calendar.workDays.includes(this.weekday(holiday))) count--;
+    });
+
+    return count;
+  }
+
+  // A calendar without work days would never finish anything, so treat it as all days
+  private hasWorkingDays(calendar: WorkCalendar): boolean {
+    return calendar.workDays.length > 0;
+  }
+
+  private isWorkingDayNumber(calendar: WorkCalendar, day: number): boolean {
+    if (!this.hasWorkingDays(calendar)) return true;
+    return calendar.workDays.includes(this.weekday(day)) && !this.getHolidayDays(calendar).has(day);
+  }
+
+  private getHolidayDays(calendar: WorkCalendar): Set<number> {
+    let days = this.holidayCache.get(calendar);
+    if (!days) {
+      days = new Set(calendar.holidays.map(holiday => this.toDayNumber(moment(holiday.date, 'YYYY-MM-DD'))));
+      this.holidayCache.set(calendar, days);
+    }
+    return days;
+  }
+
+  // 1970-01-01 was a Thursday
+  private weekday(day: number): number {
+    return ((day + 4) % 7 + 7) % 7;
+  }
+
+  private toDayNumber(date: moment.MomentInput): number {
+    const local = moment(date);
+    return Math.round(Date.UTC(local.year(), local.month(), local.date()) / MS_PER_DAY);
+  }
+
+  private fromDayNumber(day: number): Date {
+    const utc = new Date(day * MS_PER_DAY);
+    return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+  }
+}
+
+export default new WorkCalendarService();
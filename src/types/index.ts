@@ -13,6 +13,7 @@ export interface MondayItem {
   group?: MondayGroup;
   board?: MondayBoard;
   subitems?: MondayItem[];
+  parent_item?: { id: string } | null;
 }
 
 export interface MondayColumnValue {
@@ -24,6 +25,12 @@ export interface MondayColumnValue {
   additional_info?: any;
 }
 
+export interface MondayUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
 export interface MondayGroup {
   id: string;
   title: string;
@@ -44,6 +51,70 @@ export interface MondayBoard {
 export interface TimelineData {
   from: Date | null;
   to: Date | null;
+  source?: TaskDateSource;
+}
+
+export interface TaskDateSource {
+  columnId: string;
+  columnType: 'timeline' | 'date';
+  // Set when the end date comes from a second date column
+  endColumnId?: string;
+  // Set when the end date is derived from a number of days
+  durationColumnId?: string;
+}
+
+export type DateMappingMode = 'timeline' | 'start_end' | 'start_duration';
+
+export interface BoardDateMapping {
+  mode: DateMappingMode;
+  timelineColumn?: string;
+  startColumn?: string;
+  endColumn?: string;
+  durationColumn?: string;
+}
+
+// Overrides of the global column settings for one board
+export interface BoardColumnMapping {
+  colorByColumn?: string;
+  groupByColumn?: string;
+  sortByColumn?: string;
+}
+
+// A column offered in settings and filters. Columns found on several boards,
+// by id or by title, have no board id.
+export interface AvailableColumn {
+  id: string;
+  title: string;
+  type: string;
+  boardId?: string;
+}
+
+export type DependencyType = 'FS' | 'SS' | 'FF' | 'SF';
+
+export interface TaskDependency {
+  predecessorId: string;
+  type: DependencyType;
+  lagDays?: number;
+}
+
+export interface CalendarHoliday {
+  // YYYY-MM-DD
+  date: string;
+  name?: string;
+}
+
+export interface WorkCalendar {
+  id: string;
+  name: string;
+  // Days of the week that are worked, 0 = Sunday as in moment's day()
+  workDays: number[];
+  holidays: CalendarHoliday[];
+}
+
+export interface TaskAssignee {
+  // Missing when only the display name is known, e.g. for mirrored people
+  id?: string;
+  name: string;
 }
 
 export interface GanttTask {
@@ -53,15 +124,88 @@ export interface GanttTask {
   endDate: Date | null;
   progress?: number;
   color?: string;
+  colorLabel?: string;
   group?: string;
   boardId?: string;
   boardName?: string;
   parentId?: string;
   children?: GanttTask[];
+  // Set when the item has no dates of its own and spans its children instead
+  datesFromChildren?: boolean;
   originalItem: MondayItem;
   mirrorData?: { [key: string]: any };
+  dateSource?: TaskDateSource;
+  dependencies?: TaskDependency[];
+  dependencyColumnId?: string;
+  // Drawn as a diamond on its end date instead of a bar
+  isMilestone?: boolean;
+  assignees?: TaskAssignee[];
+  // The board's working calendar, used for durations and drag snapping
+  calendar?: WorkCalendar;
+}
+
+// New dates for a task, as proposed by auto-scheduling
+export interface TaskDateChange {
+  task: GanttTask;
+  startDate: Date;
+  endDate: Date;
+}
+
+// Column values to write to one item, in the JSON shape monday expects
+export interface ItemColumnUpdate {
+  boardId: string;
+  itemId: string;
+  values: { [columnId: string]: any };
 }
 
+export interface TaskSchedule {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  totalFloat: number;
+  isCritical: boolean;
+}
+
+// Baseline dates are stored as YYYY-MM-DD so they survive JSON round trips
+export interface BaselineDates {
+  start: string;
+  end: string;
+}
+
+export interface TaskBaseline {
+  id: string;
+  name: string;
+  createdAt: string;
+  tasks: { [taskId: string]: BaselineDates };
+}
+
+export type FilterOperator = 'is_any_of' | 'assigned_to' | 'between' | 'overlaps' | 'contains';
+
+export interface TaskFilter {
+  id: string;
+  columnId: string;
+  operator: FilterOperator;
+  // is_any_of / assigned_to
+  values?: string[];
+  // between
+  min?: number;
+  max?: number;
+  // overlaps, as YYYY-MM-DD
+  from?: string;
+  to?: string;
+  // contains
+  text?: string;
+}
+
+export type ZoomLevel = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type ChartMode = 'timeline' | 'resources';
+
+// How successors follow a moved task: 'strict' keeps every link tight (moving
+// successors earlier too), 'push' only moves successors the link would overlap
+export type SchedulingMode = 'strict' | 'push' | 'none';
+
 export interface GanttSettings {
   colorByColumn?: string;
   groupByColumn?: string;
@@ -69,8 +213,26 @@ export interface GanttSettings {
   sortDirection?: 'asc' | 'desc';
   showSubitems?: boolean;
   timelineColumn?: string;
+  boardDateMappings?: { [boardId: string]: BoardDateMapping };
+  boardColumnMappings?: { [boardId: string]: BoardColumnMapping };
   mirrorColumns?: string[];
   selectedBoards?: string[];
+  maxItemsPerBoard?: number;
+  showCriticalPath?: boolean;
+  zoomLevel?: ZoomLevel;
+  filters?: TaskFilter[];
+  pollIntervalSeconds?: number;
+  baselineId?: string;
+  milestoneColumn?: string;
+  showMilestoneLane?: boolean;
+  chartMode?: ChartMode;
+  peopleColumn?: string;
+  // Tasks one person can work on at the same time before they count as over-allocated
+  resourceCapacity?: number;
+  calendars?: WorkCalendar[];
+  defaultCalendarId?: string;
+  boardCalendars?: { [boardId: string]: string };
+  schedulingMode?: SchedulingMode;
 }
 
 export interface WidgetContext {
@@ -79,6 +241,19 @@ export interface WidgetContext {
   theme?: 'light' | 'dark';
   viewMode?: 'dashboard' | 'board';
   editMode?: boolean;
+  userId?: string;
+}
+
+export interface BoardChangeEvent {
+  type: string;
+  boardId?: string;
+  itemIds: string[];
+}
+
+export interface LoadProgress {
+  boardsLoaded: number;
+  totalBoards: number;
+  itemsLoaded: number;
 }
 
 export interface MirrorColumnMapping {
@@ -89,6 +264,7 @@ export interface MirrorColumnMapping {
   mirrorColumnId: string;
   mirrorColumnTitle: string;
   targetBoardId: string;
+  sourceColumnType?: string;
 }
 
 export type ColorByOption = {
@@ -0,0 +1,171 @@
+import moment from 'moment';
+import { GanttTask } from '../types';
+
+export interface ChartRow {
+  key: string;
+  task: GanttTask;
+  groupName: string;
+  // 0 for top-level items, 1 for their subitems and so on
+  depth: number;
+}
+
+export interface TaskRollup {
+  startDate: Date;
+  endDate: Date;
+  // Average progress weighted by each task's length in days
+  progress: number;
+}
+
+export interface GroupSummary {
+  groupName: string;
+  taskCount: number;
+  startDate: Date;
+  endDate: Date;
+  // Average progress weighted by each task's length in days
+  progress: number;
+}
+
+// What the chart renders per row: a group header or one of its tasks
+export type ChartLine =
+  | { kind: 'group'; key: string; summary: GroupSummary; collapsed: boolean }
+  | ({ kind: 'task' } & ChartRow);
+
+/**
+ * Separates milestones for the optional milestone lane. Milestones with
+ * subitems stay in the task rows so their subitems keep a parent row, and
+ * undated ones have nothing to show in the lane.
+ */
+export const splitMilestones = (tasks: GanttTask[]): { milestones: GanttTask[]; tasks: GanttTask[] } => {
+  const parentIds = new Set(tasks.map(task => task.parentId).filter(Boolean));
+  const isLaneMilestone = (task: GanttTask) => !!task.isMilestone && !!task.endDate && !parentIds.has(task.id);
+
+  return {
+    milestones: tasks.filter(isLaneMilestone),
+    tasks: tasks.filter(task => !isLaneMilestone(task))
+  };
+};
+
+/**
+ * Flattens the task tree into the rows the chart renders: grouped by
+ * `task.group` in first-seen order, with each task's subitems directly
+ * after it. Tasks whose parent isn't in `tasks` become top-level rows.
+ *
+ * Children are found by `parentId` among `tasks` rather than read from
+ * `task.children`, so rows always show the current copy of each task.
+ */
+export const buildChartRows = (tasks: GanttTask[]): ChartRow[] => {
+  const included = new Set(tasks.map(task => task.id));
+  const groups = new Map<string, GanttTask[]>();
+  const childrenByParent = new Map<string, GanttTask[]>();
+
+  tasks.forEach(task => {
+    if (task.parentId && included.has(task.parentId)) {
+      if (!childrenByParent.has(task.parentId)) {
+        childrenByParent.set(task.parentId, []);
+      }
+      childrenByParent.get(task.parentId)!.push(task);
+      return;
+    }
+
+    const groupKey = task.group || 'No Group';
+    if (!groups.has(groupKey)) {
+      groups.set(groupKey, []);
+    }
+    groups.get(groupKey)!.push(task);
+  });
+
+  const rows: ChartRow[] = [];
+
+  const visit = (task: GanttTask, groupName: string, depth: number) => {
+    rows.push({ key: task.id, task, groupName, depth });
+    (childrenByParent.get(task.id) || []).forEach(child => visit(child, groupName, depth + 1));
+  };
+
+  groups.forEach((groupTasks, groupName) => {
+    groupTasks.forEach(task => visit(task, groupName, 0));
+  });
+
+  return rows;
+};
+
+/**
+ * Dates spanning all of `tasks` with their duration-weighted progress, or
+ * null when none of them has dates.
+ */
+export const rollUpTasks = (tasks: GanttTask[]): TaskRollup | null => {
+  let minTime = Infinity;
+  let maxTime = -Infinity;
+  let weightedProgress = 0;
+  let totalWeight = 0;
+
+  tasks.forEach(task => {
+    if (!task.startDate || !task.endDate) return;
+
+    minTime = Math.min(minTime, task.startDate.getTime());
+    maxTime = Math.max(maxTime, task.endDate.getTime());
+
+    const days = moment(task.endDate).startOf('day').diff(moment(task.startDate).startOf('day'), 'days') + 1;
+    weightedProgress += (task.progress || 0) * days;
+    totalWeight += days;
+  });
+
+  if (totalWeight === 0) return null;
+
+  return {
+    startDate: new Date(minTime),
+    endDate: new Date(maxTime),
+    progress: weightedProgress / totalWeight
+  };
+};
+
+/**
+ * Puts a header line with a rolled-up summary in front of each group's
+ * rows, leaving out the rows of collapsed groups and the descendants of
+ * collapsed tasks.
+ */
+export const buildChartLines = (
+  rows: ChartRow[],
+  collapsedGroups: Set<string>,
+  collapsedTasks: Set<string> = new Set()
+): ChartLine[] => {
+  const rowsByGroup = new Map<string, ChartRow[]>();
+  rows.forEach(row => {
+    if (!rowsByGroup.has(row.groupName)) {
+      rowsByGroup.set(row.groupName, []);
+    }
+    rowsByGroup.get(row.groupName)!.push(row);
+  });
+
+  const lines: ChartLine[] = [];
+
+  rowsByGroup.forEach((groupRows, groupName) => {
+    const collapsed = collapsedGroups.has(groupName);
+    lines.push({ kind: 'group', key: `group:${groupName}`, summary: summarizeGroup(groupName, groupRows), collapsed });
+
+    if (collapsed) return;
+
+    // Depth of the collapsed task whose descendants are being skipped
+    let hiddenBelow = Infinity;
+    groupRows.forEach(row => {
+      if (row.depth > hiddenBelow) return;
+
+      hiddenBelow = collapsedTasks.has(row.task.id) ? row.depth : Infinity;
+      lines.push({ kind: 'task', ...row });
+    });
+  });
+
+  return lines;
+};
+
+// Parents already cover their subitems, so only top-level rows are rolled up
+const summarizeGroup = (groupName: string, rows: ChartRow[]): GroupSummary => {
+  const rollup = rollUpTasks(rows.filter(row => row.depth === 0).map(row => row.task));
+
+  return {
+    groupName,
+    taskCount: rows.length,
+    startDate: rollup ? rollup.startDate : new Date(NaN),
+    endDate: rollup ? rollup.endDate : new Date(NaN),
+    progress: rollup ? rollup.progress : 0
+  };
+};
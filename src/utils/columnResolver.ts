@@ -0,0 +1,31 @@
+import { MondayBoard, MondayItem } from '../types';
+
+// Semantic column ids match columns by title, so "Status" on one board and
+// "status" on another resolve to each board's own column id.
+const SEMANTIC_PREFIX = 'title:';
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const toSemanticColumnId = (title: string): string => `${SEMANTIC_PREFIX}${normalizeTitle(title)}`;
+
+export const isSemanticColumnId = (columnId?: string): boolean =>
+  !!columnId && columnId.startsWith(SEMANTIC_PREFIX);
+
+/**
+ * Turns a configured column id into the id of the matching column on this
+ * item. Plain ids pass through untouched.
+ */
+export const resolveItemColumnId = (item: MondayItem, columnId?: string): string | undefined => {
+  if (!columnId || !isSemanticColumnId(columnId)) return columnId;
+
+  const title = columnId.slice(SEMANTIC_PREFIX.length);
+  return item.column_values.find(cv => cv.title && normalizeTitle(cv.title) === title)?.id;
+};
+
+/** Same as `resolveItemColumnId`, against a board's column definitions. */
+export const resolveBoardColumnId = (board: MondayBoard, columnId?: string): string | undefined => {
+  if (!columnId || !isSemanticColumnId(columnId)) return columnId;
+
+  const title = columnId.slice(SEMANTIC_PREFIX.length);
+  return board.columns.find(column => !column.archived && normalizeTitle(column.title) === title)?.id;
+};
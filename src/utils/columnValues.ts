@@ -0,0 +1,89 @@
+import { MondayColumn, MondayColumnValue, MondayItem } from '../types';
+
+export const STATUS_TYPES = ['status', 'color'];
+export const PEOPLE_TYPES = ['people', 'multiple_person'];
+export const LONG_TEXT_TYPES = ['long_text', 'long-text'];
+export const NUMBER_TYPES = ['numeric', 'numbers'];
+
+export const parseJson = (value: any): any => {
+  if (!value) return null;
+  try {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const splitText = (text?: string): string[] =>
+  (text || '').split(',').map(part => part.trim()).filter(Boolean);
+
+// Status labels are keyed by index, dropdown labels are a list of { id, name }
+export const getColumnLabels = (column?: MondayColumn): string[] => {
+  const labels = parseJson(column?.settings_str)?.labels;
+  if (Array.isArray(labels)) {
+    return labels.map((label: any) => label?.name).filter(Boolean);
+  }
+  return labels ? Object.values(labels).filter((label): label is string => typeof label === 'string' && label !== '') : [];
+};
+
+/**
+ * The column of one of `types` to write to: `preferredId` when it has a
+ * matching type, else the first such column.
+ */
+export const findColumnId = (
+  columns: { id: string; type: string }[],
+  types: string[],
+  preferredId?: string
+): string | undefined =>
+  columns.find(column => column.id === preferredId && types.includes(column.type))?.id ||
+  columns.find(column => types.includes(column.type))?.id;
+
+/**
+ * A filled-in column's value in the JSON shape monday accepts when writing
+ * it, for the column types the edit panel can change. Undefined for empty
+ * columns and other types (formulas, mirrors, connections...).
+ */
+export const getWritableColumnValue = (column: MondayColumnValue): any => {
+  const value = parseJson(column.value);
+
+  if (STATUS_TYPES.includes(column.type)) {
+    return column.text ? { label: column.text } : undefined;
+  }
+  if (PEOPLE_TYPES.includes(column.type)) {
+    return value?.personsAndTeams?.length ? { personsAndTeams: value.personsAndTeams } : undefined;
+  }
+  if (column.type === 'dropdown') {
+    const labels = splitText(column.text);
+    return labels.length > 0 ? { labels } : undefined;
+  }
+  if (column.type === 'text' || NUMBER_TYPES.includes(column.type)) {
+    return column.text || undefined;
+  }
+  if (LONG_TEXT_TYPES.includes(column.type)) {
+    return column.text ? { text: column.text } : undefined;
+  }
+  if (column.type === 'date') {
+    if (!value?.date) return undefined;
+    return value.time ? { date: value.date, time: value.time } : { date: value.date };
+  }
+  if (column.type === 'timeline') {
+    return value?.from && value?.to ? { from: value.from, to: value.to } : undefined;
+  }
+  if (column.type === 'checkbox') {
+    return value?.checked === true || value?.checked === 'true' ? { checked: 'true' } : undefined;
+  }
+  return undefined;
+};
+
+export const getWritableColumnValues = (item: MondayItem): { [columnId: string]: any } => {
+  const values: { [columnId: string]: any } = {};
+
+  item.column_values.forEach(column => {
+    const value = getWritableColumnValue(column);
+    if (value !== undefined) {
+      values[column.id] = value;
+    }
+  });
+
+  return values;
+};
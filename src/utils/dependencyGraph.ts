@@ -0,0 +1,30 @@
+import { GanttTask } from '../types';
+
+/**
+ * Whether linking `predecessorId` → `successorId` would close a loop, i.e.
+ * the predecessor already depends on the successor, directly or through
+ * other tasks. Linking a task to itself counts as a loop.
+ */
+export const wouldCreateCycle = (tasks: GanttTask[], predecessorId: string, successorId: string): boolean => {
+  if (predecessorId === successorId) return true;
+
+  const predecessorsById = new Map(tasks.map(task => [
+    task.id,
+    (task.dependencies || []).map(dependency => dependency.predecessorId)
+  ]));
+
+  // Walk upstream from the new predecessor looking for the successor
+  const visited = new Set<string>();
+  const stack = [predecessorId];
+
+  while (stack.length > 0) {
+    const taskId = stack.pop()!;
+    if (taskId === successorId) return true;
+    if (visited.has(taskId)) continue;
+
+    visited.add(taskId);
+    stack.push(...(predecessorsById.get(taskId) || []));
+  }
+
+  return false;
+};
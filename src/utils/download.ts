@@ -0,0 +1,16 @@
+import moment from 'moment';
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const buildExportFilename = (extension: string): string =>
+  `gantt-${moment().format('YYYY-MM-DD')}.${extension}`;
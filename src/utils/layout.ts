@@ -0,0 +1,107 @@
+import moment from 'moment';
+import { DependencyType, GanttTask } from '../types';
+import { dateToX } from './timeScale';
+
+// Shared by the chart, its bars and the dependency overlay so that
+// everything drawn on the timeline lines up with the task rows.
+export const TASK_LIST_WIDTH = 300;
+export const ROW_HEIGHT = 40;
+export const BAR_TOP = 8;
+export const BAR_HEIGHT = 24;
+// Keeps one-day bars visible at the coarser zoom levels
+export const MIN_BAR_WIDTH = 3;
+export const MILESTONE_SIZE = 16;
+const ARROW_GAP = 10;
+
+export interface BarGeometry {
+  left: number;
+  width: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const getBarGeometry = (
+  taskStart: Date,
+  taskEnd: Date,
+  chartStart: Date,
+  dayWidth: number
+): BarGeometry => {
+  const duration = moment(taskEnd).startOf('day').diff(moment(taskStart).startOf('day'), 'days') + 1;
+
+  return {
+    left: dateToX(taskStart, chartStart, dayWidth),
+    width: Math.max(dayWidth * duration, MIN_BAR_WIDTH)
+  };
+};
+
+// Milestones sit centred on their day, whatever the zoom level
+export const getMilestoneGeometry = (date: Date, chartStart: Date, dayWidth: number): BarGeometry => ({
+  left: dateToX(date, chartStart, dayWidth) + dayWidth / 2 - MILESTONE_SIZE / 2,
+  width: MILESTONE_SIZE
+});
+
+export const getTaskGeometry = (task: GanttTask, chartStart: Date, dayWidth: number): BarGeometry =>
+  task.isMilestone
+    ? getMilestoneGeometry(task.endDate!, chartStart, dayWidth)
+    : getBarGeometry(task.startDate!, task.endDate!, chartStart, dayWidth);
+
+// Which end of each bar a link type attaches to
+export const LINK_ENDPOINTS: { [type in DependencyType]: { from: 'start' | 'end'; to: 'start' | 'end' } } = {
+  FS: { from: 'end', to: 'start' },
+  SS: { from: 'start', to: 'start' },
+  FF: { from: 'end', to: 'end' },
+  SF: { from: 'start', to: 'end' }
+};
+
+export const buildArrowPath = (from: Point, to: Point, exitDir: 1 | -1, entryDir: 1 | -1): string => {
+  const exitX = from.x + exitDir * ARROW_GAP;
+  const approachX = to.x - entryDir * ARROW_GAP;
+
+  if (exitDir === entryDir) {
+    if ((approachX - exitX) * entryDir >= 0) {
+      return `M ${from.x} ${from.y} H ${exitX} V ${to.y} H ${to.x}`;
+    }
+
+    // The target end is behind the source end, so route around through the row gap
+    const midY = from.y + (to.y >= from.y ? 1 : -1) * ROW_HEIGHT / 2;
+    return `M ${from.x} ${from.y} H ${exitX} V ${midY} H ${approachX} V ${to.y} H ${to.x}`;
+  }
+
+  // SS and FF links turn around past whichever end sticks out further
+  const turnX = exitDir === 1 ? Math.max(exitX, approachX) : Math.min(exitX, approachX);
+  return `M ${from.x} ${from.y} H ${turnX} V ${to.y} H ${to.x}`;
+};
+
+/**
+ * Path for a dependency arrow between two bars, given each bar's geometry
+ * and row index.
+ */
+export const buildDependencyPath = (
+  predecessor: BarGeometry,
+  predecessorRow: number,
+  successor: BarGeometry,
+  successorRow: number,
+  type: DependencyType
+): string => {
+  const endpoints = LINK_ENDPOINTS[type];
+  const barCenterY = BAR_TOP + BAR_HEIGHT / 2;
+
+  const from = {
+    x: endpoints.from === 'start' ? predecessor.left : predecessor.left + predecessor.width,
+    y: predecessorRow * ROW_HEIGHT + barCenterY
+  };
+  const to = {
+    x: endpoints.to === 'start' ? successor.left : successor.left + successor.width,
+    y: successorRow * ROW_HEIGHT + barCenterY
+  };
+
+  return buildArrowPath(
+    from,
+    to,
+    endpoints.from === 'end' ? 1 : -1,
+    endpoints.to === 'start' ? 1 : -1
+  );
+};
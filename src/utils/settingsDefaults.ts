@@ -0,0 +1,4 @@
+// Fallbacks for optional GanttSettings fields, shared by the app and the settings panel
+export const DEFAULT_MAX_ITEMS_PER_BOARD = 2000;
+export const DEFAULT_POLL_INTERVAL_SECONDS = 300;
+export const DEFAULT_RESOURCE_CAPACITY = 1;
@@ -0,0 +1,53 @@
+interface SelectionModifiers {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  metaKey: boolean;
+}
+
+export interface TaskSelection {
+  ids: Set<string>;
+  // Where the next shift-click range starts: the last task clicked without shift
+  anchorId: string | null;
+}
+
+export const EMPTY_SELECTION: TaskSelection = { ids: new Set(), anchorId: null };
+
+/**
+ * The selection after clicking a task, the way file lists behave: a plain
+ * click selects only that task, ctrl/cmd-click toggles it, and shift-click
+ * selects the rows from the anchor to it (added to the selection when
+ * ctrl/cmd is held too). `orderedIds` are the selectable tasks in row order.
+ */
+export const selectTask = (
+  selection: TaskSelection,
+  orderedIds: string[],
+  taskId: string,
+  modifiers: SelectionModifiers
+): TaskSelection => {
+  const isAdditive = modifiers.ctrlKey || modifiers.metaKey;
+
+  if (modifiers.shiftKey && selection.anchorId) {
+    const from = orderedIds.indexOf(selection.anchorId);
+    const to = orderedIds.indexOf(taskId);
+
+    if (from !== -1 && to !== -1) {
+      const range = orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+      return {
+        ids: new Set(isAdditive ? [...Array.from(selection.ids), ...range] : range),
+        anchorId: selection.anchorId
+      };
+    }
+  }
+
+  if (isAdditive) {
+    const ids = new Set(selection.ids);
+    if (ids.has(taskId)) {
+      ids.delete(taskId);
+    } else {
+      ids.add(taskId);
+    }
+    return { ids, anchorId: taskId };
+  }
+
+  return { ids: new Set([taskId]), anchorId: taskId };
+};
@@ -0,0 +1,137 @@
+import moment from 'moment';
+import { ZoomLevel } from '../types';
+
+type HeaderUnit = 'year' | 'quarter' | 'month' | 'isoWeek' | 'day';
+
+interface HeaderTier {
+  unit: HeaderUnit;
+  format: string;
+}
+
+interface ZoomConfig {
+  label: string;
+  // Minimum pixels per day; short ranges are stretched to fill the viewport
+  dayWidth: number;
+  // Header rows from coarsest to finest; the last one also sets range padding
+  tiers: HeaderTier[];
+  padding: number;
+}
+
+export const ZOOM_LEVELS: { [level in ZoomLevel]: ZoomConfig } = {
+  day: {
+    label: 'Day',
+    dayWidth: 30,
+    tiers: [{ unit: 'month', format: 'MMM YYYY' }, { unit: 'day', format: 'D' }],
+    padding: 7
+  },
+  week: {
+    label: 'Week',
+    dayWidth: 12,
+    tiers: [{ unit: 'month', format: 'MMM YYYY' }, { unit: 'isoWeek', format: '[W]W' }],
+    padding: 1
+  },
+  month: {
+    label: 'Month',
+    dayWidth: 4,
+    tiers: [{ unit: 'year', format: 'YYYY' }, { unit: 'month', format: 'MMM' }],
+    padding: 1
+  },
+  quarter: {
+    label: 'Quarter',
+    dayWidth: 1.2,
+    tiers: [{ unit: 'year', format: 'YYYY' }, { unit: 'quarter', format: '[Q]Q' }],
+    padding: 1
+  },
+  year: {
+    label: 'Year',
+    dayWidth: 0.4,
+    tiers: [{ unit: 'year', format: 'YYYY' }],
+    padding: 0
+  }
+};
+
+export const DEFAULT_ZOOM_LEVEL: ZoomLevel = 'day';
+
+// Labels are dropped from cells narrower than this rather than overflowing
+const MIN_LABEL_WIDTH = 24;
+
+export interface ChartRange {
+  start: Date;
+  end: Date;
+  dayWidth: number;
+}
+
+export interface HeaderCell {
+  key: string;
+  label: string;
+  left: number;
+  width: number;
+  isNonWorkingDay?: boolean;
+}
+
+export const getChartRange = (
+  minDate: Date,
+  maxDate: Date,
+  zoomLevel: ZoomLevel,
+  availableWidth: number
+): ChartRange => {
+  const config = ZOOM_LEVELS[zoomLevel];
+  const unit = config.tiers[config.tiers.length - 1].unit;
+
+  const start = moment(minDate).startOf(unit).subtract(config.padding, unit === 'isoWeek' ? 'week' : unit);
+  const end = moment(maxDate).endOf(unit).add(config.padding, unit === 'isoWeek' ? 'week' : unit);
+  const totalDays = end.clone().startOf('day').diff(start, 'days') + 1;
+
+  return {
+    start: start.startOf('day').toDate(),
+    end: end.startOf('day').toDate(),
+    dayWidth: Math.max(config.dayWidth, availableWidth / totalDays)
+  };
+};
+
+export const dateToX = (date: Date | moment.Moment, chartStart: Date, dayWidth: number): number =>
+  moment(date).startOf('day').diff(moment(chartStart).startOf('day'), 'days') * dayWidth;
+
+// The day under a timeline x coordinate
+export const xToDate = (x: number, chartStart: Date, dayWidth: number): Date =>
+  moment(chartStart).startOf('day').add(Math.floor(x / dayWidth), 'days').toDate();
+
+export const getTimelineWidth = (range: ChartRange): number =>
+  dateToX(range.end, range.start, range.dayWidth) + range.dayWidth;
+
+const isWeekday = (date: moment.Moment) => date.day() !== 0 && date.day() !== 6;
+
+/**
+ * Cells are positioned absolutely from their start date instead of being
+ * laid out side by side, so fractional day widths never accumulate drift.
+ * Day cells are flagged when `isWorkingDay` says they aren't worked.
+ */
+export const buildHeaderCells = (
+  tier: HeaderTier,
+  range: ChartRange,
+  isWorkingDay: (date: moment.Moment) => boolean = isWeekday
+): HeaderCell[] => {
+  const cells: HeaderCell[] = [];
+  const rangeStart = moment(range.start);
+  const rangeEnd = moment(range.end);
+  const cursor = rangeStart.clone().startOf(tier.unit);
+
+  while (cursor.isSameOrBefore(rangeEnd, 'day')) {
+    const cellStart = moment.max(cursor, rangeStart);
+    const cellEnd = moment.min(cursor.clone().endOf(tier.unit), rangeEnd);
+    const left = dateToX(cellStart, range.start, range.dayWidth);
+    const width = dateToX(cellEnd, range.start, range.dayWidth) + range.dayWidth - left;
+
+    cells.push({
+      key: cursor.format('YYYY-MM-DD'),
+      label: width >= MIN_LABEL_WIDTH ? cursor.format(tier.format) : '',
+      left,
+      width,
+      isNonWorkingDay: tier.unit === 'day' && !isWorkingDay(cursor)
+    });
+
+    cursor.add(1, tier.unit === 'isoWeek' ? 'week' : tier.unit).startOf(tier.unit);
+  }
+
+  return cells;
+};